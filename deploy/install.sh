@@ -150,6 +150,7 @@ section "Установка сервера intercom"
 section "Проверка переменных окружения"
 require_var ARI_USER
 require_var ARI_PASSWORD
+require_var AUTH_TOKEN_SECRET
 require_var DOCKER_USER
 require_var DOCKER_PASSWORD
 require_var FAIL2BAN_IGNOREIP
@@ -576,10 +577,10 @@ fi
 if [[ "${BACKEND_RUNNING}" -eq 1 ]]; then
   section "Проверка доступности сервера"
   if [[ -f "/etc/letsencrypt/live/${SERVER_DOMAIN}/fullchain.pem" ]] && [[ -f "/etc/letsencrypt/live/${SERVER_DOMAIN}/privkey.pem" ]]; then
-    health_url="https://127.0.0.1:${SERVER_PORT:-3000}/health"
+    health_url="https://127.0.0.1:${SERVER_PORT:-3000}/health/live"
     health_opts="-fsSk"
   else
-    health_url="http://127.0.0.1:${SERVER_PORT:-3000}/health"
+    health_url="http://127.0.0.1:${SERVER_PORT:-3000}/health/live"
     health_opts="-fsS"
   fi
   health_ok=0
@@ -0,0 +1,127 @@
+-- Baseline schema: users, addresses, panels, calls, push tokens and PJSIP realtime tables.
+-- Written to be safe on databases created before migrations existed (IF NOT EXISTS everywhere).
+
+CREATE TABLE IF NOT EXISTS addresses (
+  id BIGSERIAL PRIMARY KEY,
+  street TEXT NOT NULL,
+  house TEXT NOT NULL,
+  building TEXT,
+  letter TEXT,
+  structure TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS panels (
+  id BIGSERIAL PRIMARY KEY,
+  ip INET UNIQUE NOT NULL,
+  address_id BIGINT NOT NULL REFERENCES addresses(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE panels
+  ADD COLUMN IF NOT EXISTS unlock_method TEXT,
+  ADD COLUMN IF NOT EXISTS unlock_dtmf TEXT,
+  ADD COLUMN IF NOT EXISTS unlock_url TEXT,
+  ADD COLUMN IF NOT EXISTS snapshot_url TEXT;
+
+CREATE TABLE IF NOT EXISTS users (
+  id SERIAL PRIMARY KEY,
+  phone TEXT UNIQUE,
+  is_active BOOLEAN DEFAULT FALSE,
+  paid_until DATE,
+  address_id BIGINT REFERENCES addresses(id),
+  apartment TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  last_verified_at TIMESTAMPTZ
+);
+
+CREATE TABLE IF NOT EXISTS calls (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id),
+  call_id TEXT NOT NULL,
+  status TEXT NOT NULL,
+  started_at TIMESTAMP DEFAULT NOW(),
+  ended_at TIMESTAMP,
+  -- panel snapshot storage key (<callId>.jpg); signed URL is generated on read
+  preview_url TEXT,
+  door_opened BOOLEAN DEFAULT FALSE
+);
+
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS address_id BIGINT REFERENCES addresses(id),
+  ADD COLUMN IF NOT EXISTS address TEXT,
+  ADD COLUMN IF NOT EXISTS apartment TEXT,
+  ADD COLUMN IF NOT EXISTS answered_at TIMESTAMP;
+
+-- One history row per resident rung by the call.
+CREATE UNIQUE INDEX IF NOT EXISTS calls_call_id_user_id_key ON calls (call_id, user_id);
+CREATE INDEX IF NOT EXISTS calls_user_id_started_at_idx ON calls (user_id, started_at DESC);
+
+CREATE TABLE IF NOT EXISTS ps_aors (
+  id TEXT PRIMARY KEY,
+  max_contacts INTEGER,
+  contact TEXT
+);
+
+CREATE TABLE IF NOT EXISTS ps_auths (
+  id TEXT PRIMARY KEY,
+  auth_type TEXT,
+  username TEXT,
+  password TEXT,
+  realm TEXT
+);
+
+CREATE TABLE IF NOT EXISTS ps_endpoints (
+  id TEXT PRIMARY KEY,
+  transport TEXT,
+  aors TEXT,
+  auth TEXT,
+  context TEXT,
+  disallow TEXT,
+  allow TEXT,
+  mailboxes TEXT,
+  templates TEXT,
+  direct_media TEXT,
+  force_rport TEXT,
+  rewrite_contact TEXT,
+  rtp_symmetric TEXT,
+  ice_support TEXT,
+  outbound_auth TEXT,
+  from_user TEXT,
+  from_domain TEXT,
+  callerid TEXT
+);
+
+CREATE TABLE IF NOT EXISTS ps_registrations (
+  id TEXT PRIMARY KEY,
+  auth_rejection_permanent TEXT,
+  client_uri TEXT,
+  contact_user TEXT,
+  expiration INTEGER,
+  fatal_retry_interval INTEGER,
+  forbidden_retry_interval INTEGER,
+  max_retries INTEGER,
+  outbound_auth TEXT,
+  outbound_proxy TEXT,
+  retry_interval INTEGER,
+  server_uri TEXT,
+  transport TEXT,
+  support_path TEXT,
+  support_outbound_authentication TEXT
+);
+
+CREATE TABLE IF NOT EXISTS push_tokens (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER REFERENCES users(id),
+  push_token TEXT NOT NULL,
+  platform TEXT NOT NULL,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW(),
+  UNIQUE (user_id, push_token)
+);
+
+ALTER TABLE push_tokens
+  ADD COLUMN IF NOT EXISTS device_id TEXT;
@@ -0,0 +1,21 @@
+-- Per-panel call settings; a panel without a row uses the defaults from src/config/env.ts.
+CREATE TABLE IF NOT EXISTS panel_settings (
+  panel_id BIGINT PRIMARY KEY REFERENCES panels(id) ON DELETE CASCADE,
+  -- seconds residents are rung before the panel hears "no answer"
+  ring_timeout_sec INTEGER CHECK (ring_timeout_sec BETWEEN 5 AND 120),
+  -- lifetime of call data in Redis, i.e. longest conversation the backend can still clean up
+  call_ttl_sec INTEGER CHECK (call_ttl_sec BETWEEN 60 AND 7200),
+  -- PJSIP allow list for temporary device endpoints, e.g. 'ulaw,alaw,h264'
+  codecs TEXT,
+  -- where the dialled apartment comes from: 'auto' (extension, then connected number), 'exten', 'connected'
+  apartment_source TEXT NOT NULL DEFAULT 'auto' CHECK (apartment_source IN ('auto', 'exten', 'connected')),
+  -- added to the dialled number, e.g. -1000 for panels that dial 1001 for apartment 1
+  apartment_offset INTEGER NOT NULL DEFAULT 0,
+  -- dialled code -> apartment, checked before the offset
+  apartment_map JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Asterisk sound names (a&b) played to the visitor instead of the from-domophone defaults
+  prompt_busy TEXT,
+  prompt_noanswer TEXT,
+  prompt_notpaid TEXT,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
@@ -0,0 +1,10 @@
+-- Panels are found by their PJSIP endpoint id first; IP (and extra IPs / CIDRs) is the fallback
+-- for panels behind NAT, sharing a public IP or changing addresses.
+ALTER TABLE panels
+  ADD COLUMN IF NOT EXISTS endpoint_id TEXT UNIQUE,
+  ADD COLUMN IF NOT EXISTS ip_ranges CIDR[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE panels ALTER COLUMN ip DROP NOT NULL;
+
+ALTER TABLE panels DROP CONSTRAINT IF EXISTS panels_endpoint_or_ip;
+ALTER TABLE panels ADD CONSTRAINT panels_endpoint_or_ip CHECK (endpoint_id IS NOT NULL OR ip IS NOT NULL);
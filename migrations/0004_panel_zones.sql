@@ -0,0 +1,23 @@
+-- Multi-entrance buildings and gates: a panel is an entrance (podyezd) of its address or a gate/wicket
+-- shared by several buildings; its name ("подъезд 2", "калитка") is appended to the push address.
+ALTER TABLE panels
+  ADD COLUMN IF NOT EXISTS name TEXT,
+  ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'entrance' CHECK (kind IN ('entrance', 'gate'));
+
+-- Apartment ranges a panel serves, possibly at other addresses than the panel's own.
+-- A panel with zones resolves the dialled number through them; an entrance panel without a matching zone
+-- falls back to its own address, a gate panel does not.
+CREATE TABLE IF NOT EXISTS panel_zones (
+  id BIGSERIAL PRIMARY KEY,
+  panel_id BIGINT NOT NULL REFERENCES panels(id) ON DELETE CASCADE,
+  address_id BIGINT NOT NULL REFERENCES addresses(id),
+  -- dialled numbers (after panel settings mapping / offset) covered by the zone
+  apartment_from INTEGER NOT NULL CHECK (apartment_from > 0),
+  apartment_to INTEGER NOT NULL,
+  -- added to the dialled number to get the apartment at address_id, e.g. -1000 when the gate dials 1001 for apartment 1
+  apartment_offset INTEGER NOT NULL DEFAULT 0,
+  CHECK (apartment_to >= apartment_from)
+);
+
+CREATE INDEX IF NOT EXISTS panel_zones_panel_id_idx ON panel_zones (panel_id);
+CREATE INDEX IF NOT EXISTS panel_zones_address_id_idx ON panel_zones (address_id);
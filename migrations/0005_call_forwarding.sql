@@ -0,0 +1,4 @@
+-- Resident's own phone (7XXXXXXXXXX) an unanswered panel call is forwarded to through the multifon trunk;
+-- NULL = no forwarding.
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS forward_phone TEXT CHECK (forward_phone ~ '^7[0-9]{10}$');
@@ -0,0 +1,14 @@
+-- Do-not-disturb settings of a resident; a user without a row is always rung.
+CREATE TABLE IF NOT EXISTS user_dnd (
+  user_id INTEGER PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  -- IANA time zone the windows are in, e.g. 'Europe/Moscow'
+  timezone TEXT NOT NULL DEFAULT 'Europe/Moscow',
+  -- quiet windows: [{"from":"22:00","to":"07:00","days":[1,2,3,4,5]}]; days are ISO weekdays of the window start,
+  -- omitted = every day; from > to spans midnight
+  windows JSONB NOT NULL DEFAULT '[]'::jsonb,
+  -- quiet until this moment (holiday), regardless of windows
+  dnd_until TIMESTAMPTZ,
+  -- panels that never ring this resident
+  muted_panel_ids BIGINT[] NOT NULL DEFAULT '{}',
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
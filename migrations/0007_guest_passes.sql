@@ -0,0 +1,29 @@
+-- Guest passes: a resident lets a guest open one of their panels' doors by link / QR code
+-- within a validity window and up to max_uses times.
+CREATE TABLE IF NOT EXISTS guest_passes (
+  id BIGSERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  panel_id BIGINT NOT NULL REFERENCES panels(id) ON DELETE CASCADE,
+  -- resident's note, e.g. "уборка по четвергам"
+  label TEXT,
+  valid_from TIMESTAMPTZ NOT NULL,
+  valid_until TIMESTAMPTZ NOT NULL,
+  max_uses INTEGER NOT NULL CHECK (max_uses > 0),
+  uses INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  CHECK (valid_until > valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS guest_passes_user_id_idx ON guest_passes (user_id, created_at DESC);
+
+-- Every open attempt with a valid pass: 'opened' or 'failed' (panel relay did not respond).
+CREATE TABLE IF NOT EXISTS guest_pass_uses (
+  id BIGSERIAL PRIMARY KEY,
+  pass_id BIGINT NOT NULL REFERENCES guest_passes(id) ON DELETE CASCADE,
+  used_at TIMESTAMPTZ DEFAULT NOW(),
+  ip TEXT,
+  result TEXT NOT NULL CHECK (result IN ('opened', 'failed'))
+);
+
+CREATE INDEX IF NOT EXISTS guest_pass_uses_pass_id_idx ON guest_pass_uses (pass_id);
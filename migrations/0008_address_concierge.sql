@@ -0,0 +1,4 @@
+-- PJSIP endpoint of the building's concierge / security desk, called by residents from the app
+-- (extension "concierge" in the intercom context); NULL = no desk.
+ALTER TABLE addresses
+  ADD COLUMN IF NOT EXISTS concierge_endpoint_id TEXT;
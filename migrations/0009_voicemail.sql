@@ -0,0 +1,8 @@
+-- Voice message from the visitor when nobody answers: seconds recorded after the prompt; NULL = off
+-- (the panel hears the noanswer prompt as before).
+ALTER TABLE panel_settings
+  ADD COLUMN IF NOT EXISTS voicemail_max_sec INTEGER CHECK (voicemail_max_sec BETWEEN 5 AND 120);
+
+-- storage key of the visitor's voice message (<callId>.wav); download link is generated on read
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS voicemail_key TEXT;
@@ -0,0 +1,14 @@
+-- Opt-in recording of answered panel calls at the address: days a recording is kept; NULL = not recorded.
+ALTER TABLE addresses
+  ADD COLUMN IF NOT EXISTS call_recording_days INTEGER CHECK (call_recording_days BETWEEN 1 AND 3650);
+
+-- conversation recording (storage key <callId>-call.wav, set when recording starts), when its file was stored,
+-- its length and when it is deleted
+ALTER TABLE calls
+  ADD COLUMN IF NOT EXISTS recording_key TEXT,
+  ADD COLUMN IF NOT EXISTS recording_stored_at TIMESTAMP,
+  ADD COLUMN IF NOT EXISTS recording_duration_sec INTEGER,
+  ADD COLUMN IF NOT EXISTS recording_expires_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS calls_recording_expires_at_idx ON calls (recording_expires_at)
+  WHERE recording_key IS NOT NULL;
@@ -1,7 +1,8 @@
 import WebSocket, { RawData } from "ws";
 import { env } from "../config/env";
+import { ariReconnects } from "../metrics";
 
-import type { AriEvent, AriEventHandler, AriBridge } from "../types";
+import type { AriApplication, AriChannel, AriEndpoint, AriEvent, AriEventHandler, AriBridge } from "../types";
 
 /**
  * Build ARI REST base URL (no credentials in URL).
@@ -25,14 +26,93 @@ const buildAuthHeader = () => {
   return `Basic ${token}`;
 };
 
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null;
+
+const parseChannel = (value: unknown): AriChannel | null => {
+  if (!isObject(value) || typeof value.id !== "string") return null;
+  return { ...(value as Omit<AriChannel, "id" | "name">), id: value.id, name: typeof value.name === "string" ? value.name : "" };
+};
+
+const parseEndpoint = (value: unknown): AriEndpoint | null => {
+  if (!isObject(value) || typeof value.technology !== "string" || typeof value.resource !== "string") return null;
+  return value as AriEndpoint;
+};
+
 /**
- * Connect to ARI WebSocket events stream.
+ * Narrow a raw ARI WebSocket message to one of the handled events.
+ * Returns null for other event types and for events without the fields we rely on.
  */
-export const connectAriEvents = (onEvent: AriEventHandler) => {
+export const parseAriEvent = (raw: unknown): AriEvent | null => {
+  if (!isObject(raw)) return null;
+  switch (raw.type) {
+    case "StasisStart": {
+      const channel = parseChannel(raw.channel);
+      const args = Array.isArray(raw.args) ? raw.args.map((arg) => String(arg)) : [];
+      return channel ? { type: "StasisStart", channel, args } : null;
+    }
+    case "StasisEnd":
+    case "ChannelDestroyed": {
+      const channel = parseChannel(raw.channel);
+      return channel ? { type: raw.type, channel } : null;
+    }
+    case "EndpointStateChange": {
+      const endpoint = parseEndpoint(raw.endpoint);
+      return endpoint ? { type: "EndpointStateChange", endpoint } : null;
+    }
+    case "PlaybackFinished": {
+      const playback = raw.playback;
+      if (!isObject(playback) || typeof playback.id !== "string" || typeof playback.target_uri !== "string") return null;
+      return { type: "PlaybackFinished", playback: playback as { id: string; target_uri: string } };
+    }
+    case "RecordingFinished": {
+      const recording = raw.recording;
+      if (!isObject(recording) || typeof recording.name !== "string" || typeof recording.target_uri !== "string") {
+        return null;
+      }
+      return {
+        type: "RecordingFinished",
+        recording: recording as { name: string; target_uri: string; format: string },
+      };
+    }
+    default:
+      return null;
+  }
+};
+
+/**
+ * PJSIP endpoint id of a channel: name is "PJSIP/<endpoint_id>-<uniq>" and endpoint ids may contain "-".
+ * Returns null for channels without a technology prefix.
+ */
+export const channelEndpointId = (channel: AriChannel): string | null => {
+  const namePart = channel.name.split("/")[1];
+  if (!namePart) return null;
+  const lastHyphen = namePart.lastIndexOf("-");
+  return lastHyphen > 0 ? namePart.slice(0, lastHyphen) : namePart;
+};
+
+/** Whether the events WebSocket is open right now (readiness check). */
+let eventsConnected = false;
+
+export const isAriEventsConnected = () => eventsConnected;
+
+/** Open events stream; close() stops reconnecting and resolves once the socket is closed. */
+export type AriEventsConnection = {
+  close: () => Promise<void>;
+};
+
+/**
+ * Connect to ARI WebSocket events stream. Only events handled by the backend are passed on.
+ * Reconnects with backoff until closed.
+ */
+export const connectAriEvents = (onEvent: AriEventHandler): AriEventsConnection => {
   let attempts = 0;
   let current: WebSocket | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+  let closed = false;
 
   const connect = () => {
+    reconnectTimer = null;
     const ws = new WebSocket(buildWsUrl(), {
       headers: {
         Authorization: buildAuthHeader(),
@@ -42,13 +122,14 @@ export const connectAriEvents = (onEvent: AriEventHandler) => {
 
     ws.on("open", () => {
       attempts = 0;
+      eventsConnected = true;
       console.log("✅ ARI WebSocket connected successfully");
     });
 
     ws.on("message", (data: RawData) => {
       try {
-        const event = JSON.parse(data.toString()) as AriEvent;
-        onEvent(event);
+        const event = parseAriEvent(JSON.parse(data.toString()));
+        if (event) onEvent(event);
       } catch {
         console.warn("⚠️ ARI message ignored: invalid payload");
       }
@@ -59,19 +140,33 @@ export const connectAriEvents = (onEvent: AriEventHandler) => {
     });
 
     ws.on("close", (code, reason) => {
+      eventsConnected = false;
+      if (closed) return;
       const reasonText = reason ? reason.toString() : "";
       const delayMs = Math.min(30000, 1000 * 2 ** Math.min(attempts, 5));
       attempts += 1;
+      ariReconnects.inc();
       console.warn(
         `⚠️ ARI WebSocket closed (code=${code}${reasonText ? `, reason=${reasonText}` : ""}); retry in ${delayMs}ms`
       );
-      setTimeout(connect, delayMs);
+      reconnectTimer = setTimeout(connect, delayMs);
     });
-
-    return ws;
   };
 
-  return connect() ?? current!;
+  connect();
+
+  return {
+    close: async () => {
+      closed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      const ws = current;
+      if (!ws || ws.readyState === WebSocket.CLOSED) return;
+      await new Promise<void>((resolve) => {
+        ws.once("close", () => resolve());
+        ws.close();
+      });
+    },
+  };
 };
 
 /**
@@ -142,6 +237,13 @@ export const answerChannel = async (channelId: string) => {
   return request(`/channels/${channelId}/answer`, "POST");
 };
 
+/**
+ * Indicate ringing to the caller on a channel that is not answered yet.
+ */
+export const ringChannel = async (channelId: string) => {
+  return request(`/channels/${channelId}/ring`, "POST");
+};
+
 /**
  * Put incoming channel on hold while waiting for user.
  */
@@ -156,6 +258,95 @@ export const hangupChannel = async (channelId: string) => {
   return request(`/channels/${channelId}`, "DELETE");
 };
 
+/**
+ * Mute audio of a channel; direction "in" stops what the channel sends from reaching the bridge.
+ */
+export const muteChannel = async (channelId: string, direction: "in" | "out" | "both"): Promise<void> => {
+  await request(`/channels/${channelId}/mute?direction=${direction}`, "POST");
+};
+
+/**
+ * Play media (e.g. "sound:vm-intro") to a channel; playbackId comes back in PlaybackFinished.
+ */
+export const playMedia = async (channelId: string, media: string, playbackId: string): Promise<void> => {
+  const params = new URLSearchParams({ media });
+  await request(`/channels/${channelId}/play/${encodeURIComponent(playbackId)}?${params.toString()}`, "POST");
+};
+
+/**
+ * Start a live recording of what the channel sends; RecordingFinished carries the name once it stops.
+ * The file is kept in Asterisk stored recordings until deleteStoredRecording.
+ */
+export const recordChannel = async (
+  channelId: string,
+  params: { name: string; format: string; maxDurationSeconds: number; beep: boolean; terminateOn: string }
+): Promise<void> => {
+  const query = new URLSearchParams({
+    name: params.name,
+    format: params.format,
+    maxDurationSeconds: String(params.maxDurationSeconds),
+    beep: String(params.beep),
+    terminateOn: params.terminateOn,
+    ifExists: "overwrite",
+  });
+  await request(`/channels/${channelId}/record?${query.toString()}`, "POST");
+};
+
+/**
+ * Start a live recording of the mixed bridge audio; it stops when the bridge is deleted
+ * (or after maxDurationSeconds) and RecordingFinished carries the name.
+ */
+export const recordBridge = async (
+  bridgeId: string,
+  params: { name: string; format: string; maxDurationSeconds: number }
+): Promise<void> => {
+  const query = new URLSearchParams({
+    name: params.name,
+    format: params.format,
+    maxDurationSeconds: String(params.maxDurationSeconds),
+    ifExists: "overwrite",
+  });
+  await request(`/bridges/${bridgeId}/record?${query.toString()}`, "POST");
+};
+
+/**
+ * Download a stored recording file (binary, so not through request()).
+ */
+export const getStoredRecordingFile = async (name: string): Promise<Buffer> => {
+  const res = await fetch(`${buildBaseUrl()}/recordings/stored/${encodeURIComponent(name)}/file`, {
+    headers: { Authorization: buildAuthHeader() },
+  });
+  if (!res.ok) {
+    const text = await res.text();
+    throw new Error(`ARI request failed: ${res.status} ${text}`);
+  }
+  return Buffer.from(await res.arrayBuffer());
+};
+
+/**
+ * Delete a stored recording from Asterisk (after it was copied to our storage).
+ */
+export const deleteStoredRecording = async (name: string): Promise<void> => {
+  await request(`/recordings/stored/${encodeURIComponent(name)}`, "DELETE");
+};
+
+/**
+ * Send DTMF digits into channel (e.g. panel door unlock sequence).
+ * between is the pause in ms between digits.
+ */
+export const sendDtmf = async (channelId: string, dtmf: string, between = 100): Promise<void> => {
+  const params = new URLSearchParams({ dtmf, between: String(between) });
+  await request(`/channels/${channelId}/dtmf?${params.toString()}`, "POST");
+};
+
+/**
+ * Set a channel variable (read later by the dialplan, e.g. after continueInDialplan).
+ */
+export const setChannelVariable = async (channelId: string, variable: string, value: string): Promise<void> => {
+  const params = new URLSearchParams({ variable, value });
+  await request(`/channels/${channelId}/variable?${params.toString()}`, "POST");
+};
+
 /**
  * Exit Stasis; continue channel in dialplan at given context/extension/priority.
  * Channel leaves the bridge automatically.
@@ -239,6 +430,20 @@ export const getBridge = async (bridgeId: string) => {
   );
 };
 
+/**
+ * Asterisk build / status info; used as ARI REST reachability probe.
+ */
+export const getAsteriskInfo = async () => {
+  return request<Record<string, unknown>>("/asterisk/info");
+};
+
+/**
+ * Get our Stasis application with the channels and bridges it currently owns.
+ */
+export const getApplication = async () => {
+  return request<AriApplication>(`/applications/${env.ariAppName}`);
+};
+
 /**
  * Subscribe ARI application to endpoint events.
  * Required to receive EndpointStateChange events.
@@ -0,0 +1,27 @@
+import crypto from "crypto";
+import { FastifyReply, FastifyRequest } from "fastify";
+import { env } from "../config/env";
+
+/**
+ * Whether the request carries `Authorization: Bearer <expected>` (constant-time compare).
+ */
+export const hasBearerToken = (request: FastifyRequest, expected: string) => {
+  const header = request.headers.authorization;
+  const token = header?.startsWith("Bearer ") ? header.slice(7).trim() : "";
+  const expectedBuf = Buffer.from(expected);
+  const actual = Buffer.from(token);
+  return actual.length === expectedBuf.length && crypto.timingSafeEqual(actual, expectedBuf);
+};
+
+/**
+ * Fastify onRequest hook for /admin/* routes: requires `Authorization: Bearer <ADMIN_API_TOKEN>`.
+ * Admin API is disabled (403) while ADMIN_API_TOKEN is not set.
+ */
+export const requireAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
+  if (!env.adminApiToken) {
+    return reply.code(403).send({ error: "Admin API is disabled" });
+  }
+  if (!hasBearerToken(request, env.adminApiToken)) {
+    return reply.code(401).send({ error: "Unauthorized" });
+  }
+};
@@ -0,0 +1,154 @@
+import crypto from "crypto";
+import { FastifyReply, FastifyRequest } from "fastify";
+import { env } from "../config/env";
+import { deleteAuthSession, getAuthSession, setAuthSession } from "../store/redis";
+
+import type { AuthContext, SessionTokens } from "../types";
+
+declare module "fastify" {
+  interface FastifyRequest {
+    /** Set by requireAuth for routes that need a signed-in resident. */
+    auth?: AuthContext;
+  }
+}
+
+type AccessTokenClaims = {
+  sub: number;
+  sid: string;
+  did: string;
+  iat: number;
+  exp: number;
+};
+
+const ACCESS_TOKEN_HEADER = Buffer.from(JSON.stringify({ alg: "HS256", typ: "JWT" })).toString("base64url");
+
+const nowUnixSec = (): number => Math.floor(Date.now() / 1000);
+
+const sha256 = (value: string) => crypto.createHash("sha256").update(value).digest("hex");
+
+const sign = (data: string) => crypto.createHmac("sha256", env.authTokenSecret).update(data).digest("base64url");
+
+const safeEqual = (a: string, b: string): boolean => {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+};
+
+/**
+ * Sign access token (compact HS256 JWT) bound to session id.
+ */
+const signAccessToken = (claims: AccessTokenClaims): string => {
+  const payload = Buffer.from(JSON.stringify(claims)).toString("base64url");
+  const data = `${ACCESS_TOKEN_HEADER}.${payload}`;
+  return `${data}.${sign(data)}`;
+};
+
+/**
+ * Check signature and expiry of access token. Does not touch Redis.
+ */
+const parseAccessToken = (token: string): AccessTokenClaims | null => {
+  const [header, payload, signature] = token.split(".");
+  if (!header || !payload || !signature || header !== ACCESS_TOKEN_HEADER) return null;
+  if (!safeEqual(signature, sign(`${header}.${payload}`))) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString("utf8")) as Partial<AccessTokenClaims>;
+    if (typeof claims.sub !== "number" || !claims.sid || !claims.did || typeof claims.exp !== "number") return null;
+    if (claims.exp <= nowUnixSec()) return null;
+    return claims as AccessTokenClaims;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Create (or rotate) session for user device and return token pair.
+ * Refresh token format: `<sessionId>.<secret>`; only sha256(secret) is stored.
+ */
+const writeSession = async (
+  userId: number,
+  deviceId: string,
+  sessionId: string = crypto.randomUUID()
+): Promise<SessionTokens> => {
+  const refreshSecret = crypto.randomBytes(32).toString("base64url");
+  const previous = await setAuthSession(
+    sessionId,
+    { userId, deviceId, refreshHash: sha256(refreshSecret) },
+    env.refreshTokenTtlSec
+  );
+  if (previous) {
+    await deleteAuthSession(previous);
+  }
+
+  const iat = nowUnixSec();
+  const accessToken = signAccessToken({
+    sub: userId,
+    sid: sessionId,
+    did: deviceId,
+    iat,
+    exp: iat + env.accessTokenTtlSec,
+  });
+
+  return {
+    accessToken,
+    accessTokenExpiresAt: iat + env.accessTokenTtlSec,
+    refreshToken: `${sessionId}.${refreshSecret}`,
+    refreshTokenExpiresAt: iat + env.refreshTokenTtlSec,
+  };
+};
+
+/**
+ * Issue new session after successful phone verification.
+ * One active session per (user, device): signing in again on the same device revokes the old one.
+ */
+export const issueSession = async (userId: number, deviceId: string): Promise<SessionTokens> => {
+  return writeSession(userId, deviceId);
+};
+
+/**
+ * Exchange refresh token for a new token pair (refresh token is rotated).
+ * Returns null when token is unknown, expired or was already used.
+ */
+export const refreshSession = async (refreshToken: string): Promise<SessionTokens | null> => {
+  const dot = refreshToken.indexOf(".");
+  if (dot <= 0) return null;
+  const sessionId = refreshToken.slice(0, dot);
+  const secret = refreshToken.slice(dot + 1);
+
+  const session = await getAuthSession(sessionId);
+  if (!session) return null;
+  if (!safeEqual(sha256(secret), session.refreshHash)) {
+    // Stale refresh token presented: treat as leaked and drop the whole session.
+    await deleteAuthSession(sessionId);
+    return null;
+  }
+
+  return writeSession(session.userId, session.deviceId, sessionId);
+};
+
+/**
+ * Revoke session (logout). Access tokens of this session stop working immediately.
+ */
+export const revokeSession = async (sessionId: string) => {
+  await deleteAuthSession(sessionId);
+};
+
+/**
+ * Fastify preHandler for app routes: requires `Authorization: Bearer <accessToken>`
+ * with a valid signature and a live session. Sets request.auth.
+ */
+export const requireAuth = async (request: FastifyRequest, reply: FastifyReply) => {
+  const header = request.headers.authorization;
+  const token = header?.startsWith("Bearer ") ? header.slice(7).trim() : "";
+  const claims = token ? parseAccessToken(token) : null;
+  if (!claims) {
+    return reply.code(401).send({ error: "Unauthorized" });
+  }
+
+  const session = await getAuthSession(claims.sid);
+  if (!session || session.userId !== claims.sub) {
+    return reply.code(401).send({ error: "Unauthorized" });
+  }
+
+  request.auth = { userId: claims.sub, sessionId: claims.sid, deviceId: claims.did };
+};
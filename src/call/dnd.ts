@@ -0,0 +1,67 @@
+import type { DndSettings, DndWindow } from "../store/postgres";
+
+const ISO_WEEKDAYS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return (h ?? 0) * 60 + (m ?? 0);
+};
+
+/**
+ * Whether the IANA time zone is known to the runtime (checked before saving settings).
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * ISO weekday and minutes since midnight of `now` in the time zone.
+ */
+const localTime = (now: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(now);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? "";
+  return { weekday: ISO_WEEKDAYS[part("weekday")] ?? 1, minutes: Number(part("hour")) * 60 + Number(part("minute")) };
+};
+
+/**
+ * Window covers the local time; the part of an overnight window after midnight belongs to the day it started.
+ */
+const inWindow = (window: DndWindow, weekday: number, minutes: number) => {
+  const from = toMinutes(window.from);
+  const to = toMinutes(window.to);
+  let startDay: number;
+  if (from <= to) {
+    if (minutes < from || minutes >= to) return false;
+    startDay = weekday;
+  } else if (minutes >= from) {
+    startDay = weekday;
+  } else if (minutes < to) {
+    startDay = weekday === 1 ? 7 : weekday - 1;
+  } else {
+    return false;
+  }
+  return !window.days || window.days.length === 0 || window.days.includes(startDay);
+};
+
+/**
+ * Whether a call from panelId must not ring this resident now: panel muted, until-date not passed yet,
+ * or inside a quiet window.
+ */
+export const isDndActive = (settings: DndSettings, panelId: number | null, now = new Date()): boolean => {
+  if (panelId !== null && settings.muted_panel_ids.includes(panelId)) return true;
+  if (settings.dnd_until && Date.parse(settings.dnd_until) > now.getTime()) return true;
+  if (settings.windows.length === 0) return false;
+  const { weekday, minutes } = localTime(now, settings.timezone);
+  return settings.windows.some((window) => inWindow(window, weekday, minutes));
+};
@@ -0,0 +1,169 @@
+import { FastifyInstance } from "fastify";
+import { channelEndpointId, continueInDialplan, hangupChannel } from "../ari/client";
+import { handleOtpChannelDestroyed } from "../otp/worker";
+import { triggerOriginate } from "../originate/scheduler";
+import { deletePendingOriginates, getCallData, getCallIdByEndpointId, getChannelSession } from "../store/redis";
+import { handleIncomingPanelCall } from "./incoming";
+import { endLiveView, onLiveViewPanelAnswered, onLiveViewerJoined } from "./liveView";
+import { endConciergeCall, handleAppCall, onConciergeAnswered } from "./outgoing";
+import { onCallRecorded } from "./recording";
+import { transitionCall } from "./stateMachine";
+import { onVoicemailPromptFinished, onVoicemailRecorded } from "./voicemail";
+
+import type {
+  AriChannelDestroyedEvent,
+  AriEndpointStateChangeEvent,
+  AriEvent,
+  AriStasisEndEvent,
+  AriStasisStartEvent,
+  CallData,
+  ChannelSession,
+} from "../types";
+
+/** Cleared on shutdown: new panel calls are sent back to the dialplan instead of being set up. */
+let acceptingCalls = true;
+
+/**
+ * Stop setting up new incoming calls (shutdown). Calls already in progress keep getting events.
+ */
+export const stopAcceptingCalls = () => {
+  acceptingCalls = false;
+};
+
+/**
+ * Panel call arrived while shutting down: let the dialplan answer it (noanswer) rather than leave it in Stasis.
+ */
+const declineIncomingPanelCall = async (app: FastifyInstance, { channel }: AriStasisStartEvent) => {
+  app.log.warn({ channelId: channel.id }, "Shutting down - sending new domophone call to noanswer");
+  await continueInDialplan(channel.id, "from-domophone", "noanswer", 1);
+};
+
+/**
+ * Temporary device endpoint registered: the originate scheduler tries the pending call right away.
+ */
+const onEndpointStateChange = async (app: FastifyInstance, { endpoint }: AriEndpointStateChangeEvent) => {
+  if (endpoint.technology !== "PJSIP" || !endpoint.resource.startsWith("inc_")) return;
+  app.log.info({ endpointId: endpoint.resource, state: endpoint.state }, "Temporary endpoint state changed");
+  // Registration usually shows up as "online": originate now instead of waiting for the next retry.
+  if (endpoint.state === "online") {
+    await triggerOriginate(endpoint.resource);
+  }
+};
+
+/**
+ * Channel is gone: drop OTP channel mapping, end its concierge call, or drop originates still pending for its call.
+ */
+const onChannelDestroyed = async (app: FastifyInstance, { channel }: AriChannelDestroyedEvent) => {
+  if (await handleOtpChannelDestroyed(app, channel.id)) return;
+  if (await endConciergeCall(app, channel.id)) return;
+
+  const session = await getChannelSession<ChannelSession>(channel.id);
+  const callData = session?.callId ? await getCallData<CallData>(session.callId) : null;
+  const endpointIds = (callData?.devices ?? []).map((d) => d.endpointId);
+  if (endpointIds.length === 0) return;
+  await deletePendingOriginates(endpointIds);
+  app.log.info({ channelId: channel.id, callId: session?.callId, endpointIds }, "ChannelDestroyed: cleared pending originates");
+};
+
+/**
+ * Device or forward phone answered after the call was already answered, ended or is unknown: hang it up.
+ */
+const hangUpLateLeg = async (app: FastifyInstance, channelId: string, context: Record<string, unknown>) => {
+  app.log.info({ channelId, ...context }, "Call already answered, ended or unknown - hanging up late leg");
+  try {
+    await hangupChannel(channelId);
+  } catch (err) {
+    app.log.debug({ err, channelId }, "Failed to hang up late answering leg (channel may already be down)");
+  }
+};
+
+/**
+ * Resident device answered an originate (Stasis args: outgoing,<bridgeId>). Only the first device wins;
+ * late ones are hung up.
+ */
+const onDeviceAnswered = async (app: FastifyInstance, { channel }: AriStasisStartEvent) => {
+  const endpointId = channelEndpointId(channel);
+  const callId = endpointId ? getCallIdByEndpointId(endpointId) : null;
+
+  const accepted = callId && endpointId
+    ? await transitionCall(app, callId, { to: "accepted", endpointId, legChannelId: channel.id })
+    : false;
+  if (!accepted) await hangUpLateLeg(app, channel.id, { callId, endpointId });
+};
+
+/**
+ * Resident's forward phone answered (Stasis args: forward,<callId>,<userId>); competes with the devices.
+ */
+const onForwardAnswered = async (app: FastifyInstance, { channel, args }: AriStasisStartEvent) => {
+  const [, callId, userIdArg] = args;
+  const userId = Number(userIdArg);
+
+  const forwarded = callId && Number.isInteger(userId)
+    ? await transitionCall(app, callId, { to: "forwarded", userId, legChannelId: channel.id })
+    : false;
+  if (!forwarded) await hangUpLateLeg(app, channel.id, { callId, userId });
+};
+
+/**
+ * Panel or answered device left Stasis: the call (or live view) is over.
+ */
+const onStasisEnd = async (app: FastifyInstance, { channel }: AriStasisEndEvent) => {
+  const session = await getChannelSession<ChannelSession>(channel.id);
+  if (session?.liveViewId) {
+    await endLiveView(app, session.liveViewId, "hangup");
+    return;
+  }
+  if (await endConciergeCall(app, channel.id)) return;
+  if (!session?.callId) {
+    app.log.debug({ channelId: channel.id }, "StasisEnd for channel without call session");
+    return;
+  }
+  await transitionCall(app, session.callId, { to: "ended" });
+};
+
+/**
+ * Route ARI events to the incoming call flow. Errors are logged per event, never thrown.
+ */
+export const handleAriEvent = async (app: FastifyInstance, event: AriEvent) => {
+  app.log.debug({ event }, "ARI event received");
+  try {
+    switch (event.type) {
+      case "EndpointStateChange":
+        await onEndpointStateChange(app, event);
+        return;
+      case "ChannelDestroyed":
+        await onChannelDestroyed(app, event);
+        return;
+      case "StasisStart":
+        if (event.args[0] === "outgoing") {
+          await onDeviceAnswered(app, event);
+        } else if (event.args[0] === "forward") {
+          await onForwardAnswered(app, event);
+        } else if (event.args[0] === "liveview" && event.args[1]) {
+          await onLiveViewPanelAnswered(app, event.channel, event.args[1]);
+        } else if (event.args[0] === "liveview") {
+          await onLiveViewerJoined(app, event.channel);
+        } else if (event.args[0] === "concierge") {
+          await onConciergeAnswered(app, event.channel);
+        } else if (!acceptingCalls) {
+          await declineIncomingPanelCall(app, event);
+        } else if (event.args[0] === "app-call") {
+          await handleAppCall(app, event.channel, event.args[1] ?? "");
+        } else {
+          await handleIncomingPanelCall(app, event.channel, event.args);
+        }
+        return;
+      case "StasisEnd":
+        await onStasisEnd(app, event);
+        return;
+      case "PlaybackFinished":
+        await onVoicemailPromptFinished(app, event);
+        return;
+      case "RecordingFinished":
+        if (!(await onVoicemailRecorded(app, event))) await onCallRecorded(app, event);
+        return;
+    }
+  } catch (error) {
+    app.log.error({ err: error, eventType: event.type, channelId: "channel" in event ? event.channel.id : undefined }, "Failed to handle ARI event");
+  }
+};
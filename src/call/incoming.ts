@@ -0,0 +1,402 @@
+import crypto from "crypto";
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import { addChannelToBridge, channelEndpointId, continueInDialplan, createBridge, hangupChannel } from "../ari/client";
+import {
+  createCallRecord,
+  createTempSipEndpoint,
+  finishCallRecord,
+  findPanel,
+  formatAddress,
+  getAddressById,
+  getDndSettingsForUsers,
+  getPanelSettings,
+  DEFAULT_PANEL_SETTINGS,
+  getPushTokensForUsers,
+  getUsers,
+  listPanelZones,
+  setCallPreview,
+  updateCallStatus,
+} from "../store/postgres";
+import {
+  clearActiveIncomingFromPanel,
+  getActiveIncomingFromPanel,
+  setActiveIncomingFromPanel,
+  setCallData,
+  setChannelSession,
+  setEndpointSession,
+} from "../store/redis";
+import { canReceiveCallEndedPush, canReceiveCallPush } from "../push/dispatch";
+import { captureCallSnapshot } from "../snapshot/capture";
+import { getObjectUrl } from "../storage/objects";
+import { isDndActive } from "./dnd";
+import { applyPanelPrompts, panelCallSettings, resolveApartment } from "./panelSettings";
+import { formatPanelAddress, resolvePanelDestination } from "./panelZones";
+import { transitionCall } from "./stateMachine";
+
+import type { RingingDevice } from "./stateMachine";
+import type { PanelRecord, PanelSettings } from "../store/postgres";
+import type { AriChannel, CallForward, PushTarget } from "../types";
+
+/** Panel, address and residents resolved for an incoming call (empty when the panel is unknown). */
+type CallTarget = {
+  address: string;
+  addressId: number | null;
+  /** Apartment at addressId (differs from the dialled number behind gate zones). */
+  apartment: string | null;
+  panelId: number | null;
+  snapshotUrl: string | null;
+  /** Residents to ring. */
+  userIds: number[];
+  /** Forward phones of the residents rung (call forwarding enabled). */
+  forwardPhones: { userId: number; phone: string }[];
+  /** Residents skipped because they have no active subscription. */
+  unpaidUserIds: number[];
+  /** Residents skipped because of their do-not-disturb settings. */
+  dndUserIds: number[];
+  /** Days the conversation recording is kept; null = the address does not record calls. */
+  recordingDays: number | null;
+};
+
+const emptyCallTarget = (): CallTarget => ({
+  address: "",
+  addressId: null,
+  apartment: null,
+  panelId: null,
+  snapshotUrl: null,
+  userIds: [],
+  forwardPhones: [],
+  unpaidUserIds: [],
+  dndUserIds: [],
+  recordingDays: null,
+});
+
+/** Channel that calls the residents: a panel, or a resident's app calling a neighbour. */
+type CallerChannel = {
+  channelId: string;
+  /** PJSIP endpoint of the caller; one active call per endpoint. */
+  endpointId: string | null;
+  panelIp: string | null;
+  settings: PanelSettings;
+  /** When the call reached the backend (epoch ms). */
+  startedAt: number;
+};
+
+/**
+ * Residents of the apartment to ring (subscribed, outside do-not-disturb) and the ones skipped.
+ * panelId is the calling panel (muted panels), null for a neighbour calling from the app.
+ */
+const addResidents = async (
+  app: FastifyInstance,
+  callId: string,
+  target: CallTarget,
+  addressId: number,
+  apartment: string,
+  panelId: number | null
+) => {
+  const users = await getUsers(addressId, apartment);
+  if (users.length === 0) {
+    app.log.warn({ callId, panelId, addressId, apartment }, "User not found by address/apartment");
+    return;
+  }
+  // Only residents with an active subscription are rung, and only outside their do-not-disturb time.
+  const subscribed = env.unpaidCallAction === "allow" ? users : users.filter((u) => u.is_subscribed);
+  const dndSettings = await getDndSettingsForUsers(subscribed.map((u) => u.id));
+  const quiet = new Set(dndSettings.filter((settings) => isDndActive(settings, panelId)).map((settings) => settings.user_id));
+  const rung = subscribed.filter((u) => !quiet.has(u.id));
+  target.userIds = rung.map((u) => u.id);
+  target.forwardPhones = rung.flatMap((u) => (u.forward_phone ? [{ userId: u.id, phone: u.forward_phone }] : []));
+  target.unpaidUserIds = users.filter((u) => !subscribed.includes(u)).map((u) => u.id);
+  target.dndUserIds = [...quiet];
+  if (target.unpaidUserIds.length > 0) {
+    app.log.info({ callId, apartment, unpaidUserIds: target.unpaidUserIds }, "Skipping residents without active subscription");
+  }
+  if (target.dndUserIds.length > 0) {
+    app.log.info({ callId, apartment, dndUserIds: target.dndUserIds }, "Skipping residents in do-not-disturb");
+  }
+};
+
+const resolveCallTarget = async (
+  app: FastifyInstance,
+  callId: string,
+  panel: PanelRecord,
+  dialled: string
+): Promise<CallTarget> => {
+  const panelLog = { panelId: panel.id, panelEndpointId: panel.endpoint_id, panelIp: panel.ip };
+  const target = emptyCallTarget();
+  target.panelId = panel.id;
+  target.snapshotUrl = panel.snapshot_url;
+  const destination = resolvePanelDestination(panel, await listPanelZones(panel.id), dialled);
+  if (!destination) {
+    app.log.warn({ callId, ...panelLog, dialled }, "Dialled number is outside the panel's zones");
+    return target;
+  }
+  const { addressId, apartment } = destination;
+  target.addressId = addressId;
+  target.apartment = apartment;
+  const addressRecord = await getAddressById(addressId);
+  if (!addressRecord) {
+    app.log.warn({ callId, ...panelLog, addressId }, "Address not found for panel");
+  } else {
+    target.address = formatPanelAddress(addressRecord, panel);
+    target.recordingDays = addressRecord.call_recording_days;
+  }
+  await addResidents(app, callId, target, addressId, apartment, panel.id);
+  return target;
+};
+
+/**
+ * Panel channel entered Stasis: resolve residents, set up one temporary endpoint per device and the bridge,
+ * store the call as 'pending' and move it to 'ringing' (push, originates, ring timeout).
+ * args are Stasis(intercom,<panelIp>,<apartment>) arguments from the from-domophone dialplan.
+ * The panel is looked up by the channel's PJSIP endpoint id, then by the source IP.
+ */
+export const handleIncomingPanelCall = async (app: FastifyInstance, channel: AriChannel, args: string[]) => {
+  const channelId = channel.id;
+  app.log.info({ channelId }, "Incoming domophone channel received, will answer after client connects");
+
+  const domophoneEndpointId = channelEndpointId(channel);
+  const callId = crypto.randomUUID();
+  const startedAt = Date.now();
+  const panelIp = args[0]?.trim() || null;
+  const panel = await findPanel({ endpointId: domophoneEndpointId, ip: panelIp });
+  const settings = panel ? await getPanelSettings(panel.id) : DEFAULT_PANEL_SETTINGS;
+  const dialled = resolveApartment(channel, args, settings);
+
+  let target = emptyCallTarget();
+  if (!panel) {
+    app.log.warn({ callId, channelId, domophoneEndpointId, panelIp }, "Panel is not configured in DB (neither endpoint id nor IP match)");
+  } else if (!dialled) {
+    app.log.warn({ callId, channelId, panelIp, args }, "Apartment not found in incoming call payload");
+  } else {
+    target = await resolveCallTarget(app, callId, panel, dialled);
+  }
+  const caller = { channelId, endpointId: domophoneEndpointId, panelIp, settings, startedAt };
+  await ringCallTarget(app, callId, caller, target, target.apartment ?? dialled);
+};
+
+/**
+ * Resident dialled a neighbour's apartment from the app (call/outgoing.ts): ring the apartment at the caller's
+ * own address like a panel call. The caller's channel stands in for the panel channel.
+ */
+export const handleNeighbourCall = async (
+  app: FastifyInstance,
+  channel: AriChannel,
+  caller: { addressId: number; apartment: string | null },
+  apartment: string
+) => {
+  const callId = crypto.randomUUID();
+  const startedAt = Date.now();
+  const target = emptyCallTarget();
+  target.addressId = caller.addressId;
+  target.apartment = apartment;
+  const addressRecord = await getAddressById(caller.addressId);
+  if (addressRecord) {
+    const formatted = formatAddress(addressRecord);
+    target.address = caller.apartment ? `${formatted}, кв. ${caller.apartment}` : formatted;
+  }
+  await addResidents(app, callId, target, caller.addressId, apartment, null);
+  app.log.info({ callId, channelId: channel.id, addressId: caller.addressId, apartment }, "Neighbour call from the app");
+  const source: CallerChannel = {
+    channelId: channel.id,
+    endpointId: channelEndpointId(channel),
+    panelIp: null,
+    settings: DEFAULT_PANEL_SETTINGS,
+    startedAt,
+  };
+  await ringCallTarget(app, callId, source, target, apartment);
+};
+
+/**
+ * Set up the call to the resolved residents: history, one temporary endpoint per device, the bridge with the
+ * caller's channel, then 'ringing'. A caller nobody can be rung for goes to the fallback extension.
+ */
+const ringCallTarget = async (
+  app: FastifyInstance,
+  callId: string,
+  caller: CallerChannel,
+  target: CallTarget,
+  apartment: string | null
+) => {
+  const { channelId, endpointId: domophoneEndpointId, panelIp, settings, startedAt } = caller;
+  const { ringTimeoutSec, callTtlSec, codecs, voicemailMaxSec } = panelCallSettings(settings);
+  const { address, addressId, panelId, snapshotUrl, userIds, forwardPhones, unpaidUserIds, dndUserIds, recordingDays } =
+    target;
+
+  if (domophoneEndpointId) {
+    const claimed = await setActiveIncomingFromPanel(domophoneEndpointId, callId, callTtlSec);
+    if (!claimed) {
+      const existingCallId = await getActiveIncomingFromPanel(domophoneEndpointId);
+      app.log.info({ panelId: domophoneEndpointId, existingCallId, channelId }, "Ignoring duplicate incoming from same panel");
+      try {
+        await hangupChannel(channelId);
+        app.log.info({ channelId }, "Hung up duplicate channel so it does not hang in Stasis");
+      } catch (err) {
+        app.log.warn({ err, channelId }, "Failed to hang up duplicate channel");
+      }
+      return;
+    }
+  }
+
+  try {
+    await applyPanelPrompts(channelId, settings);
+  } catch (error) {
+    app.log.warn({ err: error, callId, channelId }, "Failed to set panel prompts, defaults will play");
+  }
+
+  if (userIds.length === 0 && dndUserIds.length > 0) {
+    app.log.info(
+      { callId, channelId, apartment, dndUserIds, extension: env.dndCallAction },
+      "All residents are in do-not-disturb - sending domophone to fallback"
+    );
+    try {
+      await createCallRecord({ callId, userIds: dndUserIds, addressId, address, apartment, status: "dnd" });
+      await finishCallRecord(callId);
+    } catch (error) {
+      app.log.warn({ err: error, callId }, "Failed to write dnd call history record");
+    }
+    try {
+      await continueInDialplan(channelId, "from-domophone", env.dndCallAction, 1);
+    } catch (error) {
+      app.log.warn({ err: error, channelId }, "Failed to continueInDialplan dnd call");
+    }
+    if (domophoneEndpointId) {
+      await clearActiveIncomingFromPanel(domophoneEndpointId);
+    }
+    return;
+  }
+
+  if (userIds.length === 0 && unpaidUserIds.length > 0 && env.unpaidCallAction !== "allow") {
+    app.log.warn(
+      { callId, channelId, apartment, unpaidUserIds, extension: env.unpaidCallAction },
+      "No resident with active subscription - sending domophone to fallback"
+    );
+    try {
+      await createCallRecord({ callId, userIds: unpaidUserIds, addressId, address, apartment });
+      await updateCallStatus(callId, "unpaid");
+      await finishCallRecord(callId);
+    } catch (error) {
+      app.log.warn({ err: error, callId }, "Failed to write unpaid call history record");
+    }
+    try {
+      await continueInDialplan(channelId, "from-domophone", env.unpaidCallAction, 1);
+    } catch (error) {
+      app.log.warn({ err: error, channelId }, "Failed to continueInDialplan unpaid call");
+    }
+    if (domophoneEndpointId) {
+      await clearActiveIncomingFromPanel(domophoneEndpointId);
+    }
+    return;
+  }
+
+  // Snapshot is taken while endpoints and bridge are set up; the call push waits for it (bounded by fetch timeout).
+  const previewKeyPromise: Promise<string | null> =
+    snapshotUrl && userIds.length > 0
+      ? captureCallSnapshot(callId, snapshotUrl).catch((error) => {
+          app.log.warn({ err: error, callId, panelIp }, "Failed to capture panel snapshot");
+          return null;
+        })
+      : Promise.resolve(null);
+
+  try {
+    await createCallRecord({ callId, userIds, addressId, address, apartment });
+    if (dndUserIds.length > 0) {
+      await createCallRecord({ callId, userIds: dndUserIds, addressId, address, apartment, status: "dnd" });
+    }
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to write call history record");
+  }
+
+  // One temporary endpoint per resident device: inc_<callId>_<n>.
+  const pushTokens = await getPushTokensForUsers(userIds);
+  const notifyTargets: PushTarget[] = pushTokens.filter((t) => canReceiveCallEndedPush(t.platform));
+  const devices: RingingDevice[] = pushTokens
+    .filter((t) => canReceiveCallPush(t.platform))
+    .map((t, i) => ({
+      ...t,
+      endpointId: `inc_${callId}_${i}`,
+      sipPassword: crypto.randomBytes(8).toString("hex"),
+    }));
+  for (const device of devices) {
+    await createTempSipEndpoint({
+      id: device.endpointId,
+      username: device.endpointId,
+      password: device.sipPassword,
+      context: "intercom",
+      templateId: "tpl_client",
+      codecs,
+    });
+    await setEndpointSession(device.endpointId, { type: "incoming" }, callTtlSec);
+  }
+  app.log.info({ callId, userIds, endpointsCount: devices.length }, "Temporary SIP endpoints created");
+  const forwards: CallForward[] = forwardPhones.map((f) => ({
+    ...f,
+    immediate: !devices.some((d) => d.userId === f.userId),
+  }));
+
+  try {
+    const bridge = await createBridge();
+    await addChannelToBridge(bridge.id, channelId);
+    // Single root key: full call data in call:${callId}, channel session only points to callId
+    await setCallData(
+      callId,
+      {
+        channelId,
+        status: "pending",
+        startedAt,
+        ttlSec: callTtlSec,
+        bridgeId: bridge.id,
+        userIds,
+        devices: devices.map(({ sipPassword: _sipPassword, ...device }) => device),
+        ...(forwards.length > 0 ? { forwards } : {}),
+        notifyTargets,
+        apartment: apartment ?? undefined,
+        panelIp: panelIp ?? undefined,
+        address,
+        ...(addressId !== null ? { addressId } : {}),
+        ...(panelId !== null ? { panelId } : {}),
+        ...(domophoneEndpointId ? { domophoneEndpointId } : {}),
+        ...(voicemailMaxSec !== null ? { voicemailMaxSec } : {}),
+        ...(recordingDays !== null ? { recordingDays } : {}),
+      },
+      callTtlSec
+    );
+    await setChannelSession(channelId, { callId }, callTtlSec);
+    app.log.info({ callId, channelId, bridgeId: bridge.id }, "Call bridge set up");
+  } catch (error) {
+    app.log.error({ err: error, callId, channelId }, "CRITICAL: Failed to set up call bridge - sending domophone to noanswer");
+    try {
+      await continueInDialplan(channelId, "from-domophone", "noanswer", 1);
+    } catch (continueError) {
+      app.log.warn({ err: continueError, channelId }, "Failed to continueInDialplan call without bridge");
+    }
+    try {
+      await finishCallRecord(callId);
+    } catch (historyError) {
+      app.log.warn({ err: historyError, callId }, "Failed to finish call history record");
+    }
+    if (domophoneEndpointId) {
+      await clearActiveIncomingFromPanel(domophoneEndpointId);
+    }
+    return;
+  }
+
+  if (userIds.length === 0) {
+    app.log.warn({ callId, domophoneEndpointId, panelIp, apartment }, "No user mapping for incoming call, skipping push");
+  } else if (devices.length === 0 && forwards.length === 0) {
+    app.log.warn({ callId, userIds }, "No push tokens for apartment residents");
+  }
+
+  let previewUrl: string | null = null;
+  const previewKey = await previewKeyPromise;
+  if (previewKey) {
+    try {
+      await setCallPreview(callId, previewKey);
+      previewUrl = getObjectUrl(previewKey);
+    } catch (error) {
+      app.log.warn({ err: error, callId }, "Failed to attach panel snapshot to call");
+    }
+  }
+
+  await transitionCall(app, callId, { to: "ringing", devices, previewUrl, ringTimeoutSec });
+};
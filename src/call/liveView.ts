@@ -0,0 +1,186 @@
+import crypto from "crypto";
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import {
+  addChannelToBridge,
+  answerChannel,
+  channelEndpointId,
+  createBridge,
+  deleteBridge,
+  hangupChannel,
+  muteChannel,
+  originateCall,
+} from "../ari/client";
+import { createTempSipEndpoint, deleteTempSipEndpoint, getPanelSettings } from "../store/postgres";
+import {
+  claimLiveViewPanel,
+  claimLiveViewViewer,
+  clearLiveViewPanel,
+  deleteLiveView,
+  getLiveView,
+  setChannelSession,
+  setEndpointSession,
+  setLiveView,
+  updateLiveView,
+} from "../store/redis";
+import { panelCallSettings } from "./panelSettings";
+
+import type { PanelRecord } from "../store/postgres";
+import type { AriChannel } from "../types";
+
+/** Time the app has to register and dial in with the credentials before the live view expires. */
+const LIVE_VIEW_JOIN_SEC = 60;
+
+/** Extension the app dials from the intercom context to join its live view (configs/asterisk/extensions.conf). */
+export const LIVE_VIEW_EXTENSION = "live";
+
+const LIVE_ENDPOINT_PREFIX = "live_";
+
+/** Session length limits by live view id; in memory only (after a restart reconcile hangs up the legs). */
+const liveViewTimers = new Map<string, NodeJS.Timeout>();
+
+/** Credentials the app registers with to dial into its live view. */
+export type LiveViewSession = {
+  liveViewId: string;
+  sipCredentials: { username: string; password: string; domain: string };
+  extension: string;
+  maxDurationSec: number;
+};
+
+/**
+ * Set up a live view of the panel for the resident: temporary endpoint live_<id> and the panel lock.
+ * Nothing is dialled yet; the panel is originated once the app dials in (onLiveViewerJoined).
+ * Returns null when another live view of the panel is in progress.
+ */
+export const startLiveView = async (
+  userId: number,
+  panel: PanelRecord & { endpoint_id: string }
+): Promise<LiveViewSession | null> => {
+  const liveViewId = crypto.randomUUID();
+  const ttlSec = LIVE_VIEW_JOIN_SEC + env.liveViewMaxSec;
+  if (!(await claimLiveViewPanel(panel.id, liveViewId, ttlSec))) return null;
+
+  const endpointId = `${LIVE_ENDPOINT_PREFIX}${liveViewId}`;
+  const password = crypto.randomBytes(8).toString("hex");
+  const { codecs } = panelCallSettings(await getPanelSettings(panel.id));
+  await createTempSipEndpoint({ id: endpointId, username: endpointId, password, context: "intercom", codecs });
+  await setEndpointSession(endpointId, { type: "liveview" }, ttlSec);
+  await setLiveView(liveViewId, { userId, panelId: panel.id, panelEndpointId: panel.endpoint_id, endpointId }, ttlSec);
+
+  return {
+    liveViewId,
+    sipCredentials: { username: endpointId, password, domain: env.serverDomain },
+    extension: LIVE_VIEW_EXTENSION,
+    maxDurationSec: env.liveViewMaxSec,
+  };
+};
+
+/**
+ * Tear down a live view once: hang up both legs, delete the bridge and the temporary endpoint, free the panel.
+ */
+export const endLiveView = async (app: FastifyInstance, liveViewId: string, reason: string) => {
+  const liveView = await getLiveView(liveViewId);
+  if (!liveView || !(await deleteLiveView(liveViewId))) return;
+  const timer = liveViewTimers.get(liveViewId);
+  if (timer) clearTimeout(timer);
+  liveViewTimers.delete(liveViewId);
+
+  for (const channelId of [liveView.viewerChannelId, liveView.panelChannelId]) {
+    if (!channelId) continue;
+    try {
+      await hangupChannel(channelId);
+    } catch (err) {
+      app.log.debug({ err, channelId, liveViewId }, "hangupChannel failed for live view leg (channel may already be down)");
+    }
+  }
+  if (liveView.bridgeId) {
+    try {
+      await deleteBridge(liveView.bridgeId);
+    } catch (err) {
+      app.log.debug({ err, bridgeId: liveView.bridgeId }, "Live view bridge already deleted");
+    }
+  }
+  try {
+    await deleteTempSipEndpoint(liveView.endpointId);
+  } catch (error) {
+    app.log.warn({ err: error, endpointId: liveView.endpointId }, "Failed to delete live view endpoint");
+  }
+  await clearLiveViewPanel(liveView.panelId);
+  app.log.info({ liveViewId, panelId: liveView.panelId, userId: liveView.userId, reason }, "Live view ended");
+};
+
+/**
+ * App dialled in (Stasis args: liveview, channel from live_<id>): answer it muted, so the panel hears nothing,
+ * bridge it and call the panel. The session is cut after env.liveViewMaxSec.
+ */
+export const onLiveViewerJoined = async (app: FastifyInstance, channel: AriChannel) => {
+  const endpointId = channelEndpointId(channel);
+  const liveViewId = endpointId?.startsWith(LIVE_ENDPOINT_PREFIX) ? endpointId.slice(LIVE_ENDPOINT_PREFIX.length) : null;
+  if (!liveViewId || !(await claimLiveViewViewer(liveViewId, channel.id))) {
+    app.log.info({ channelId: channel.id, endpointId }, "Live view unknown, ended or already joined - hanging up");
+    try {
+      await hangupChannel(channel.id);
+    } catch (err) {
+      app.log.debug({ err, channelId: channel.id }, "Failed to hang up stray live view channel");
+    }
+    return;
+  }
+  const ttlSec = env.liveViewMaxSec + LIVE_VIEW_JOIN_SEC;
+  await setChannelSession(channel.id, { liveViewId }, ttlSec);
+  liveViewTimers.set(
+    liveViewId,
+    setTimeout(() => void endLiveView(app, liveViewId, "max_duration"), env.liveViewMaxSec * 1000)
+  );
+
+  try {
+    const liveView = await getLiveView(liveViewId);
+    if (!liveView) return;
+    await answerChannel(channel.id);
+    await muteChannel(channel.id, "in");
+    const bridge = await createBridge();
+    await updateLiveView(liveViewId, { bridgeId: bridge.id });
+    await addChannelToBridge(bridge.id, channel.id);
+    const panelChannel = (await originateCall(`PJSIP/${liveView.panelEndpointId}`, `liveview,${liveViewId}`)) as
+      | { id?: string }
+      | undefined;
+    if (panelChannel?.id) {
+      await updateLiveView(liveViewId, { panelChannelId: panelChannel.id });
+      await setChannelSession(panelChannel.id, { liveViewId }, ttlSec);
+    }
+    app.log.info({ liveViewId, panelId: liveView.panelId, userId: liveView.userId }, "Live view started, calling panel");
+  } catch (error) {
+    app.log.warn({ err: error, liveViewId }, "Failed to set up live view");
+    await endLiveView(app, liveViewId, "setup_failed");
+  }
+};
+
+/**
+ * Panel answered the live view originate (Stasis args: liveview,<id>): put it into the viewer's bridge.
+ */
+export const onLiveViewPanelAnswered = async (app: FastifyInstance, channel: AriChannel, liveViewId: string) => {
+  const liveView = await getLiveView(liveViewId);
+  if (!liveView?.bridgeId) {
+    app.log.info({ channelId: channel.id, liveViewId }, "Live view already ended - hanging up panel leg");
+    try {
+      await hangupChannel(channel.id);
+    } catch (err) {
+      app.log.debug({ err, channelId: channel.id }, "Failed to hang up late panel leg");
+    }
+    return;
+  }
+  try {
+    await setChannelSession(channel.id, { liveViewId }, env.liveViewMaxSec + LIVE_VIEW_JOIN_SEC);
+    await addChannelToBridge(liveView.bridgeId, channel.id);
+  } catch (error) {
+    app.log.warn({ err: error, liveViewId }, "Failed to bridge panel into live view");
+    await endLiveView(app, liveViewId, "setup_failed");
+  }
+};
+
+/**
+ * Clear session timers (shutdown).
+ */
+export const stopLiveViewTimers = () => {
+  for (const timer of liveViewTimers.values()) clearTimeout(timer);
+  liveViewTimers.clear();
+};
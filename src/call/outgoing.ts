@@ -0,0 +1,130 @@
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import {
+  addChannelToBridge,
+  answerChannel,
+  channelEndpointId,
+  createBridge,
+  deleteBridge,
+  hangupChannel,
+  originateCall,
+  ringChannel,
+} from "../ari/client";
+import { getAddressById, getUserBinding } from "../store/postgres";
+import { getCallData, getCallIdByEndpointId, getChannelSession, setChannelSession } from "../store/redis";
+import { handleNeighbourCall } from "./incoming";
+
+import type { AriChannel, CallData, ChannelSession } from "../types";
+
+/** Extension the app dials for the concierge / security desk of its building (configs/asterisk/extensions.conf). */
+export const CONCIERGE_EXTENSION = "concierge";
+
+const hangUp = async (app: FastifyInstance, channelId: string, reason: string) => {
+  app.log.info({ channelId, reason }, "Refusing app call");
+  try {
+    await hangupChannel(channelId);
+  } catch (err) {
+    app.log.debug({ err, channelId }, "Failed to hang up refused app call");
+  }
+};
+
+/**
+ * Call the desk of the caller's building: bridge the app channel (ringing meanwhile) and originate the desk;
+ * both legs point at each other, so either hanging up ends the call.
+ */
+const callConcierge = async (app: FastifyInstance, channel: AriChannel, addressId: number) => {
+  const address = await getAddressById(addressId);
+  const conciergeEndpointId = address?.concierge_endpoint_id;
+  if (!conciergeEndpointId) {
+    await hangUp(app, channel.id, "no concierge desk at the caller's address");
+    return;
+  }
+  const bridge = await createBridge();
+  try {
+    await addChannelToBridge(bridge.id, channel.id);
+    await ringChannel(channel.id);
+    const leg = (await originateCall(`PJSIP/${conciergeEndpointId}`, `concierge,${channel.id}`)) as
+      | { id?: string }
+      | undefined;
+    if (!leg?.id) throw new Error("Originate returned no channel");
+    await setChannelSession(channel.id, { bridgeId: bridge.id, peerChannelId: leg.id }, env.callTokenTtlSec);
+    await setChannelSession(leg.id, { bridgeId: bridge.id, peerChannelId: channel.id }, env.callTokenTtlSec);
+  } catch (error) {
+    app.log.warn({ err: error, channelId: channel.id, conciergeEndpointId }, "Failed to call concierge desk");
+    await hangUp(app, channel.id, "concierge desk unreachable");
+    try {
+      await deleteBridge(bridge.id);
+    } catch (err) {
+      app.log.debug({ err, bridgeId: bridge.id }, "Concierge call bridge already deleted");
+    }
+    return;
+  }
+  app.log.info({ channelId: channel.id, addressId, conciergeEndpointId }, "Calling concierge desk from the app");
+};
+
+/**
+ * Resident's app dialled a number (Stasis args: app-call,<extension>, channel from out_<id> of /calls/credentials).
+ * "concierge" rings the desk of the resident's building, digits ring that apartment at the resident's own address.
+ * Calls never leave the caller's address.
+ */
+export const handleAppCall = async (app: FastifyInstance, channel: AriChannel, dialled: string) => {
+  const endpointId = channelEndpointId(channel);
+  const credentialsId = endpointId?.startsWith("out_") ? getCallIdByEndpointId(endpointId) : null;
+  const credentials = credentialsId ? await getCallData<CallData>(credentialsId) : null;
+  const binding = credentials?.userId ? await getUserBinding(credentials.userId) : null;
+  if (!binding?.address_id) {
+    await hangUp(app, channel.id, "caller unknown or not bound to an address");
+    return;
+  }
+
+  if (dialled === CONCIERGE_EXTENSION) {
+    await callConcierge(app, channel, binding.address_id);
+  } else if (/^\d{1,10}$/.test(dialled) && dialled !== binding.apartment) {
+    await handleNeighbourCall(app, channel, { addressId: binding.address_id, apartment: binding.apartment }, dialled);
+  } else {
+    await hangUp(app, channel.id, "invalid extension");
+  }
+};
+
+/**
+ * Desk answered (Stasis args: concierge,<callerChannelId>): answer the app channel and join the bridge.
+ */
+export const onConciergeAnswered = async (app: FastifyInstance, channel: AriChannel) => {
+  const session = await getChannelSession<ChannelSession>(channel.id);
+  if (!session?.bridgeId || !session.peerChannelId) {
+    await hangUp(app, channel.id, "concierge call already ended");
+    return;
+  }
+  try {
+    await answerChannel(session.peerChannelId);
+    await addChannelToBridge(session.bridgeId, channel.id);
+    app.log.info({ channelId: channel.id, callerChannelId: session.peerChannelId }, "Concierge answered");
+  } catch (error) {
+    app.log.warn({ err: error, channelId: channel.id }, "Failed to connect concierge call");
+    await endConciergeCall(app, channel.id);
+  }
+};
+
+/**
+ * A concierge call leg left Stasis or was destroyed (desk busy / no answer): hang up the other leg, drop the bridge.
+ * Returns false when the channel is not a concierge call leg.
+ */
+export const endConciergeCall = async (app: FastifyInstance, channelId: string): Promise<boolean> => {
+  const session = await getChannelSession<ChannelSession>(channelId);
+  if (!session?.peerChannelId) return false;
+  for (const id of [channelId, session.peerChannelId]) {
+    try {
+      await hangupChannel(id);
+    } catch (err) {
+      app.log.debug({ err, channelId: id }, "hangupChannel failed for concierge call leg (channel may already be down)");
+    }
+  }
+  if (session.bridgeId) {
+    try {
+      await deleteBridge(session.bridgeId);
+    } catch (err) {
+      app.log.debug({ err, bridgeId: session.bridgeId }, "Concierge call bridge already deleted");
+    }
+  }
+  return true;
+};
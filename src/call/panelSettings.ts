@@ -0,0 +1,75 @@
+import { env } from "../config/env";
+import { setChannelVariable } from "../ari/client";
+import { DEFAULT_CODECS } from "../store/postgres";
+
+import type { PanelSettings } from "../store/postgres";
+import type { AriChannel } from "../types";
+
+/** Timeouts and codecs of a call from this panel, with env defaults filled in. */
+export type PanelCallSettings = {
+  ringTimeoutSec: number;
+  callTtlSec: number;
+  codecs: string;
+  /** Visitor voice message length when nobody answers; null = noanswer prompt. */
+  voicemailMaxSec: number | null;
+};
+
+export const panelCallSettings = (settings: PanelSettings): PanelCallSettings => ({
+  ringTimeoutSec: settings.ring_timeout_sec ?? env.ringTimeoutSec,
+  callTtlSec: settings.call_ttl_sec ?? env.callTokenTtlSec,
+  codecs: settings.codecs ?? DEFAULT_CODECS,
+  voicemailMaxSec: settings.voicemail_max_sec,
+});
+
+const digitsOrNull = (value: string | undefined) => {
+  const trimmed = value?.trim();
+  return trimmed && /^\d+$/.test(trimmed) ? trimmed : null;
+};
+
+/**
+ * Number the panel dialled: Stasis args / dialplan extension and/or connected line number.
+ */
+const dialledCode = (channel: AriChannel, args: string[], settings: PanelSettings): string | null => {
+  const exten = digitsOrNull(args[1]) ?? digitsOrNull(channel.dialplan?.exten);
+  const connected = digitsOrNull(channel.connected?.number);
+  switch (settings.apartment_source) {
+    case "exten":
+      return exten;
+    case "connected":
+      return connected;
+    default:
+      return exten ?? connected;
+  }
+};
+
+/**
+ * Apartment called by the panel: dialled code through the panel's mapping table, else shifted by its offset.
+ * args are Stasis(intercom,<panelIp>,<apartment>) arguments.
+ */
+export const resolveApartment = (channel: AriChannel, args: string[], settings: PanelSettings): string | null => {
+  const code = dialledCode(channel, args, settings);
+  if (!code) return null;
+  const mapped = settings.apartment_map[code];
+  if (mapped) return mapped;
+  if (!settings.apartment_offset) return code;
+  const apartment = Number(code) + settings.apartment_offset;
+  return apartment > 0 ? String(apartment) : null;
+};
+
+/** from-domophone extension -> channel variable its Playback reads (configs/asterisk/extensions.conf). */
+const PROMPT_VARIABLES = {
+  INTERCOM_PROMPT_BUSY: "prompt_busy",
+  INTERCOM_PROMPT_NOANSWER: "prompt_noanswer",
+  INTERCOM_PROMPT_NOTPAID: "prompt_notpaid",
+} as const;
+
+/**
+ * Put the panel's own busy / noanswer / notpaid prompts on its channel, so whichever extension
+ * the call is later continued to plays them.
+ */
+export const applyPanelPrompts = async (channelId: string, settings: PanelSettings) => {
+  for (const [variable, field] of Object.entries(PROMPT_VARIABLES)) {
+    const prompt = settings[field];
+    if (prompt) await setChannelVariable(channelId, variable, prompt);
+  }
+};
@@ -0,0 +1,59 @@
+import { formatAddress } from "../store/postgres";
+
+import type { AddressRecord, PanelRecord, PanelZone, UserBinding } from "../store/postgres";
+
+/** Where a dialled number leads on a panel: address and apartment of the residents to ring. */
+export type PanelDestination = {
+  addressId: number;
+  apartment: string;
+};
+
+const zoneSize = (zone: PanelZone) => zone.apartment_to - zone.apartment_from;
+
+/**
+ * Zone covering the dialled number; the narrowest one wins when ranges overlap.
+ */
+const findZone = (zones: PanelZone[], dialled: number) =>
+  zones
+    .filter((zone) => dialled >= zone.apartment_from && dialled <= zone.apartment_to)
+    .sort((a, b) => zoneSize(a) - zoneSize(b))[0];
+
+/**
+ * Address and apartment for the apartment number the panel dialled: through the panel's zones,
+ * else (entrance panels only) the panel's own address. Null when a gate has no zone for the number.
+ */
+export const resolvePanelDestination = (
+  panel: PanelRecord,
+  zones: PanelZone[],
+  apartment: string
+): PanelDestination | null => {
+  const zone = /^\d+$/.test(apartment) ? findZone(zones, Number(apartment)) : undefined;
+  if (zone) {
+    const shifted = Number(apartment) + zone.apartment_offset;
+    return shifted > 0 ? { addressId: zone.address_id, apartment: String(shifted) } : null;
+  }
+  return panel.kind === "entrance" ? { addressId: panel.address_id, apartment } : null;
+};
+
+/**
+ * Whether the panel rings this resident's apartment (the panel's door is theirs to open).
+ */
+export const panelServesResident = (panel: PanelRecord, zones: PanelZone[], binding: UserBinding): boolean => {
+  const { address_id: addressId, apartment } = binding;
+  if (addressId === null) return false;
+  if (panel.kind === "entrance" && panel.address_id === addressId) return true;
+  if (!apartment || !/^\d+$/.test(apartment)) return false;
+  return zones.some((zone) => {
+    const dialled = Number(apartment) - zone.apartment_offset;
+    return zone.address_id === addressId && dialled >= zone.apartment_from && dialled <= zone.apartment_to;
+  });
+};
+
+/**
+ * Address shown to residents for a call from this panel: the building plus the entrance or gate name.
+ */
+export const formatPanelAddress = (address: AddressRecord, panel: PanelRecord): string => {
+  const label = panel.name ?? (panel.kind === "gate" ? "калитка" : null);
+  const formatted = formatAddress(address);
+  return label ? `${formatted}, ${label}` : formatted;
+};
@@ -0,0 +1,34 @@
+import { FastifyInstance } from "fastify";
+import { deletePushTokens } from "../store/postgres";
+
+import type { PushTarget } from "../types";
+
+/**
+ * Drop push tokens FCM / APNs reported as invalid, grouped by the resident they belong to.
+ */
+export const removeInvalidTokens = async (
+  app: FastifyInstance,
+  callId: string,
+  targets: PushTarget[],
+  invalidTokens: string[]
+) => {
+  if (invalidTokens.length === 0) return;
+  const byUser = new Map<number, string[]>();
+  for (const target of targets) {
+    if (!invalidTokens.includes(target.pushToken)) continue;
+    byUser.set(target.userId, [...(byUser.get(target.userId) ?? []), target.pushToken]);
+  }
+  for (const [userId, tokens] of byUser) {
+    await deletePushTokens(userId, tokens);
+    app.log.info({ callId, userId, removedCount: tokens.length }, "Removed invalid push tokens from DB");
+  }
+};
+
+/**
+ * Log push providers that failed as a whole (e.g. FCM down, APNs key not configured).
+ */
+export const logPushErrors = (app: FastifyInstance, callId: string, errors: unknown[], msg: string) => {
+  for (const err of errors) {
+    app.log.warn({ err, callId }, msg);
+  }
+};
@@ -0,0 +1,74 @@
+import { FastifyInstance } from "fastify";
+import { deleteBridge, getApplication, hangupChannel } from "../ari/client";
+import { getCallData, getCallLegs, listCallIds } from "../store/redis";
+import { scheduleRingTimeout, transitionCall } from "./stateMachine";
+import { isCallAnswered } from "./status";
+
+import type { CallData } from "../types";
+
+/**
+ * Whether a call left in Redis by the previous process can go on: its panel is still in Stasis and,
+ * once answered, so is a device or forward phone leg. Everything else is torn down through the 'ended' transition.
+ */
+const canResume = (call: CallData, legs: string[], live: Set<string>) => {
+  if (!call.channelId || !live.has(call.channelId)) return false;
+  if (call.status === "ringing" || call.status === "forwarding") return true;
+  if (isCallAnswered(call.status)) return legs.some((legId) => live.has(legId));
+  return false;
+};
+
+/**
+ * Startup pass after a restart: match what ARI holds for our Stasis app against call data in Redis.
+ * Ringing and forwarding calls get their ring timeout back, answered ones are left alone, the rest are ended;
+ * channels and bridges no call owns are hung up / deleted.
+ * Run before connecting to ARI events, so no new call is mistaken for an orphan.
+ */
+export const reconcileCalls = async (app: FastifyInstance) => {
+  const application = await getApplication();
+  const liveChannels = new Set(application.channel_ids);
+  const ownedChannels = new Set<string>();
+  const ownedBridges = new Set<string>();
+  let resumed = 0;
+  let ended = 0;
+
+  for (const callId of await listCallIds()) {
+    const call = await getCallData<CallData>(callId);
+    // Outgoing credentials have no status; ended calls only wait for their TTL.
+    if (!call?.status || call.status === "ended") continue;
+    const legs = await getCallLegs(callId);
+
+    if (!canResume(call, legs, liveChannels)) {
+      if (await transitionCall(app, callId, { to: "ended" })) ended += 1;
+      continue;
+    }
+    resumed += 1;
+    if (call.channelId) ownedChannels.add(call.channelId);
+    if (call.bridgeId) ownedBridges.add(call.bridgeId);
+    for (const legId of legs) ownedChannels.add(legId);
+    if (call.status === "ringing" || call.status === "forwarding") {
+      scheduleRingTimeout(app, callId, call.ringDeadlineAt ?? Date.now());
+    }
+  }
+
+  const orphanChannels = application.channel_ids.filter((id) => !ownedChannels.has(id));
+  for (const channelId of orphanChannels) {
+    try {
+      await hangupChannel(channelId);
+    } catch (err) {
+      app.log.debug({ err, channelId }, "Orphan channel hangup failed (channel may already be down)");
+    }
+  }
+  const orphanBridges = application.bridge_ids.filter((id) => !ownedBridges.has(id));
+  for (const bridgeId of orphanBridges) {
+    try {
+      await deleteBridge(bridgeId);
+    } catch (err) {
+      app.log.debug({ err, bridgeId }, "Orphan bridge delete failed (bridge may already be gone)");
+    }
+  }
+
+  app.log.info(
+    { resumed, ended, orphanChannels: orphanChannels.length, orphanBridges: orphanBridges.length },
+    "Reconciled calls with ARI"
+  );
+};
@@ -0,0 +1,94 @@
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import { deleteStoredRecording, getStoredRecordingFile, recordBridge } from "../ari/client";
+import {
+  clearCallRecording,
+  getCallRecordingKey,
+  listExpiredCallRecordings,
+  setCallRecording,
+  setCallRecordingStored,
+} from "../store/postgres";
+import { deleteObject, saveObject } from "../storage/objects";
+
+import type { AriRecordingFinishedEvent, CallData } from "../types";
+
+/** Stored recording name of a call's conversation in Asterisk. */
+const CALL_RECORDING_PREFIX = "call-";
+
+/** Expired recordings deleted per purge run; the rest wait for the next run. */
+const PURGE_BATCH = 500;
+
+/**
+ * Call answered at an address that records calls: record the mixing bridge until it is deleted (call end)
+ * and attach the recording with the address's retention to the call history.
+ * A failure is logged, the call goes on unrecorded.
+ */
+export const startCallRecording = async (app: FastifyInstance, callId: string, call: CallData) => {
+  if (!call.recordingDays || !call.bridgeId) return;
+  try {
+    await recordBridge(call.bridgeId, {
+      name: `${CALL_RECORDING_PREFIX}${callId}`,
+      format: "wav",
+      maxDurationSeconds: call.ttlSec ?? env.callTokenTtlSec,
+    });
+    await setCallRecording(callId, { recordingKey: `${callId}-call.wav`, retentionDays: call.recordingDays });
+    app.log.info({ callId, bridgeId: call.bridgeId, retentionDays: call.recordingDays }, "Call recording started");
+  } catch (error) {
+    app.log.warn({ err: error, callId, bridgeId: call.bridgeId }, "Failed to start call recording");
+  }
+};
+
+/**
+ * Bridge recording stopped: move the file from Asterisk to our storage under the key attached to the call
+ * history when it started. A file that cannot be stored is detached from the history.
+ * Returns false when the recording is not a call recording.
+ */
+export const onCallRecorded = async (
+  app: FastifyInstance,
+  { recording }: AriRecordingFinishedEvent
+): Promise<boolean> => {
+  if (!recording.name.startsWith(CALL_RECORDING_PREFIX)) return false;
+  const callId = recording.name.slice(CALL_RECORDING_PREFIX.length);
+  let key: string | null = null;
+  try {
+    key = await getCallRecordingKey(callId, null, { stored: false });
+    if (!key) {
+      app.log.warn({ callId }, "Call recording is not attached to call history - recording dropped");
+      return true;
+    }
+    await saveObject(key, await getStoredRecordingFile(recording.name));
+    await setCallRecordingStored(callId, recording.duration ?? null);
+    app.log.info({ callId, durationSec: recording.duration }, "Call recording stored");
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to store call recording");
+    if (key) {
+      await clearCallRecording(key).catch((err) => app.log.warn({ err, callId }, "Failed to detach call recording"));
+    }
+  } finally {
+    try {
+      await deleteStoredRecording(recording.name);
+    } catch (err) {
+      app.log.debug({ err, callId }, "Stored recording already deleted");
+    }
+  }
+  return true;
+};
+
+/**
+ * Delete recordings past their retention from storage and call history (run periodically).
+ * A recording that fails to delete stays in history and is retried on the next run.
+ */
+export const purgeExpiredRecordings = async (app: FastifyInstance) => {
+  const keys = await listExpiredCallRecordings(PURGE_BATCH);
+  let deleted = 0;
+  for (const key of keys) {
+    try {
+      await deleteObject(key);
+      await clearCallRecording(key);
+      deleted += 1;
+    } catch (error) {
+      app.log.warn({ err: error, key }, "Failed to delete expired call recording");
+    }
+  }
+  if (keys.length > 0) app.log.info({ deleted, expired: keys.length }, "Expired call recordings purged");
+};
@@ -0,0 +1,485 @@
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import {
+  addChannelToBridge,
+  answerChannel,
+  continueInDialplan,
+  deleteBridge,
+  getBridge,
+  hangupChannel,
+  originateCall,
+} from "../ari/client";
+import { finishCallRecord, markCallAnswered, updateCallStatus } from "../store/postgres";
+import {
+  addCallLeg,
+  clearActiveIncomingFromPanel,
+  deletePendingOriginates,
+  getCallData,
+  getCallLegs,
+  setChannelSession,
+  updateCallData,
+} from "../store/redis";
+import { sendCallEndedPush, sendCallPushEach } from "../push/dispatch";
+import { scheduleOriginate } from "../originate/scheduler";
+import { callAnswerSeconds, incomingCalls } from "../metrics";
+import { logPushErrors, removeInvalidTokens } from "./pushTokens";
+import { startCallRecording } from "./recording";
+import { canTransition, isCallRinging } from "./status";
+import { startVoicemail } from "./voicemail";
+
+import type { PendingOriginate } from "../store/redis";
+import type { CallData, CallDevice, CallForward, CallStatus, PushTarget } from "../types";
+
+/** Wait before the single retry of adding the answering device to the bridge. */
+const JOIN_BRIDGE_RETRY_MS = 500;
+
+/** Outbound trunk for forward phones (same as OTP calls). */
+const FORWARD_TRUNK = "multifon";
+
+/** Device rung by the call together with the SIP password it gets in the push (never stored). */
+export type RingingDevice = CallDevice & { sipPassword: string };
+
+/** Requested status change plus what its side effects need. */
+export type CallTransition =
+  | { to: "ringing"; devices: RingingDevice[]; previewUrl: string | null; ringTimeoutSec: number }
+  | { to: "accepted"; endpointId: string; legChannelId: string }
+  | { to: "forwarding" }
+  | { to: "forwarded"; userId: number; legChannelId: string }
+  | { to: "rejected"; userId: number; deviceId: string | null }
+  | { to: "timeout" }
+  | { to: "ended" };
+
+/** Pending ring timeouts by callId; in memory only, resumed from call data after a restart. */
+const ringTimers = new Map<string, NodeJS.Timeout>();
+
+/**
+ * Nobody answered in time: a ringing call with forward phones goes on to them, anything else times out.
+ */
+const onRingDeadline = async (app: FastifyInstance, callId: string) => {
+  const call = await getCallData<CallData>(callId);
+  const forward = call?.status === "ringing" && (call.forwards?.length ?? 0) > 0;
+  await transitionCall(app, callId, forward ? { to: "forwarding" } : { to: "timeout" });
+};
+
+/**
+ * Time the call out (or forward it) at atMs if nobody answers (ignored by then if it was answered, rejected or ended).
+ */
+export const scheduleRingTimeout = (app: FastifyInstance, callId: string, atMs: number) => {
+  clearTimeout(ringTimers.get(callId));
+  const timer = setTimeout(() => {
+    ringTimers.delete(callId);
+    onRingDeadline(app, callId).catch((error) => {
+      app.log.warn({ err: error, callId }, "Failed to time out incoming call");
+    });
+  }, Math.max(0, atMs - Date.now()));
+  ringTimers.set(callId, timer);
+};
+
+/**
+ * Drop every pending ring timeout (shutdown). Deadlines stay in call data for the next start.
+ */
+export const stopRingTimeouts = () => {
+  for (const timer of ringTimers.values()) clearTimeout(timer);
+  ringTimers.clear();
+};
+
+/**
+ * Temporary endpoints rung by incoming call (one per resident device).
+ */
+const callEndpointIds = (call: CallData): string[] => {
+  const ids = (call.devices ?? []).map((d) => d.endpointId);
+  if (call.endpointId && !ids.includes(call.endpointId)) ids.push(call.endpointId);
+  return ids;
+};
+
+/**
+ * Originate a scheduled call to a resident device endpoint and remember the ringing leg,
+ * so it can be hung up when another device answers or the call ends (originate scheduler callback).
+ */
+export const originateCallLeg = async (endpointId: string, pending: PendingOriginate) => {
+  const appArgs = `outgoing,${pending.bridgeId}`;
+  const channel = (await originateCall(`PJSIP/${endpointId}`, appArgs)) as { id?: string } | undefined;
+  if (channel?.id) {
+    await addCallLeg(pending.callId, channel.id, pending.ttlSec ?? env.callTokenTtlSec);
+  }
+};
+
+/**
+ * Dial residents' forward phones over the trunk and remember the legs like device legs.
+ * An answered phone enters Stasis with args forward,<callId>,<userId> (call/events.ts).
+ */
+const dialForwards = async (app: FastifyInstance, callId: string, call: CallData, forwards: CallForward[]) => {
+  for (const { userId, phone } of forwards) {
+    try {
+      const channel = (await originateCall(`PJSIP/${phone}@${FORWARD_TRUNK}`, `forward,${callId},${userId}`)) as
+        | { id?: string }
+        | undefined;
+      if (channel?.id) {
+        await addCallLeg(callId, channel.id, call.ttlSec ?? env.callTokenTtlSec);
+      }
+      app.log.info({ callId, userId, channelId: channel?.id }, "Forward phone dialled");
+    } catch (error) {
+      app.log.warn({ err: error, callId, userId }, "Failed to dial forward phone");
+    }
+  }
+};
+
+/**
+ * Stop ringing: drop scheduled originates and hang up legs already originated, except keepChannelId.
+ */
+const stopRinging = async (app: FastifyInstance, callId: string, call: CallData, keepChannelId: string | null) => {
+  try {
+    await deletePendingOriginates(callEndpointIds(call));
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to clear pending originates");
+  }
+  try {
+    for (const legId of await getCallLegs(callId)) {
+      if (legId === keepChannelId) continue;
+      try {
+        await hangupChannel(legId);
+      } catch (err) {
+        app.log.debug({ err, channelId: legId }, "hangupChannel failed for call leg (channel may already be down)");
+      }
+    }
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to hang up call legs");
+  }
+};
+
+/**
+ * Hang up every channel in the bridge except keepChannelId and delete the bridge.
+ */
+const destroyBridge = async (app: FastifyInstance, bridgeId: string, keepChannelId: string | null) => {
+  try {
+    const bridgeInfo = await getBridge(bridgeId);
+    for (const chId of bridgeInfo?.channels ?? []) {
+      if (chId === keepChannelId) continue;
+      try {
+        await hangupChannel(chId);
+      } catch (err) {
+        app.log.debug({ err, channelId: chId, bridgeId }, "hangupChannel failed (channel may already be down)");
+      }
+    }
+    await deleteBridge(bridgeId);
+    app.log.info({ bridgeId }, "Bridge deleted");
+  } catch (error) {
+    app.log.debug({ err: error, bridgeId }, "Bridge already deleted or cleanup failed");
+  }
+};
+
+/**
+ * Send the panel channel back to the from-domophone dialplan (busy / noanswer) and drop the bridge.
+ */
+const releasePanel = async (app: FastifyInstance, callId: string, call: CallData, extension: string) => {
+  if (!call.channelId) return;
+  try {
+    await continueInDialplan(call.channelId, "from-domophone", extension, 1);
+    app.log.info({ callId, channelId: call.channelId, extension }, "Domophone channel sent back to dialplan");
+  } catch (error) {
+    app.log.warn({ err: error, callId, channelId: call.channelId }, "continueInDialplan failed (channel may already be down)");
+  }
+  if (call.bridgeId) {
+    await destroyBridge(app, call.bridgeId, call.channelId);
+  }
+};
+
+const writeHistoryStatus = async (
+  app: FastifyInstance,
+  callId: string,
+  status: "accepted" | "rejected" | "timeout"
+) => {
+  try {
+    await updateCallStatus(callId, status);
+  } catch (error) {
+    app.log.warn({ err: error, callId, status }, "Failed to write status to call history");
+  }
+};
+
+const ring = async (
+  app: FastifyInstance,
+  callId: string,
+  call: CallData,
+  { devices, previewUrl, ringTimeoutSec }: Extract<CallTransition, { to: "ringing" }>
+) => {
+  if (call.bridgeId && call.channelId) {
+    // Devices keep ringing while forward phones are rung after the deadline.
+    const originateTtlSec = ringTimeoutSec + ((call.forwards?.length ?? 0) > 0 ? env.forwardRingTimeoutSec : 0);
+    for (const device of devices) {
+      await scheduleOriginate(
+        device.endpointId,
+        { callId, bridgeId: call.bridgeId, channelId: call.channelId, ttlSec: call.ttlSec ?? env.callTokenTtlSec },
+        originateTtlSec
+      );
+    }
+  }
+
+  if (devices.length > 0) {
+    try {
+      const { invalidTokens, errors } = await sendCallPushEach(
+        devices.map((device) => ({
+          target: device,
+          payload: {
+            type: "SIP_CALL" as const,
+            callId,
+            sipCredentials: JSON.stringify({
+              username: device.endpointId,
+              password: device.sipPassword,
+              domain: env.serverDomain,
+            }),
+            ...(call.address ? { address: call.address } : {}),
+            ...(previewUrl ? { previewUrl } : {}),
+          },
+        }))
+      );
+      logPushErrors(app, callId, errors, "Push provider failed for call push, continuing call setup (timeout will still run)");
+      await removeInvalidTokens(app, callId, devices, invalidTokens);
+      app.log.info({ callId, tokensCount: devices.length, hasPreview: previewUrl !== null }, "Call push sent");
+    } catch (error) {
+      app.log.error({ err: error, callId }, "Call push failed, continuing call setup (timeout will still run)");
+    }
+  }
+
+  // Residents without an app device get their phone rung right away.
+  await dialForwards(app, callId, call, (call.forwards ?? []).filter((f) => f.immediate));
+
+  scheduleRingTimeout(app, callId, call.ringDeadlineAt ?? Date.now() + ringTimeoutSec * 1000);
+};
+
+/**
+ * Devices did not answer in time: ring the remaining forward phones (devices may still pick up meanwhile).
+ */
+const forward = async (app: FastifyInstance, callId: string, call: CallData) => {
+  app.log.info({ callId }, "Nobody answered in the app - forwarding to residents' phones");
+  await dialForwards(app, callId, call, (call.forwards ?? []).filter((f) => !f.immediate));
+  scheduleRingTimeout(app, callId, call.ringDeadlineAt ?? Date.now() + env.forwardRingTimeoutSec * 1000);
+};
+
+/**
+ * Tell the other family members' devices the call is over because someone else answered or declined it.
+ * Every token of the device that did it is skipped (an iPhone has both a PushKit and an APNs token).
+ */
+const sendEndedElsewhere = async (
+  app: FastifyInstance,
+  callId: string,
+  call: CallData,
+  by: { userId: number; deviceId?: string | null; pushToken?: string; endpointId?: string } | null,
+  reason: "answered_elsewhere" | "rejected_elsewhere"
+) => {
+  const others = (call.devices ?? []).filter((d) => d.endpointId !== by?.endpointId);
+  const targets = (call.notifyTargets ?? others).filter(
+    (t) => t.pushToken !== by?.pushToken && !(by?.deviceId && t.userId === by.userId && t.deviceId === by.deviceId)
+  );
+  if (targets.length === 0) return;
+  try {
+    const { invalidTokens, errors } = await sendCallEndedPush(targets, {
+      type: "SIP_CALL_ENDED",
+      callId,
+      address: call.address ?? "",
+      reason,
+    });
+    logPushErrors(app, callId, errors, `Push provider failed for ${reason}`);
+    await removeInvalidTokens(app, callId, targets, invalidTokens);
+    app.log.info({ callId, tokensCount: targets.length }, `Call-ended (${reason}) push sent`);
+  } catch (error) {
+    app.log.warn({ err: error, callId }, `Failed to send ${reason} push`);
+  }
+};
+
+/** Who picked up: a resident device (accepted) or a resident's forward phone (forwarded). */
+type AnsweredBy = {
+  status: "accepted" | "forwarded";
+  userId: number | null;
+  device: CallDevice | null;
+};
+
+/**
+ * First device or forward phone answered: connect it to the panel, stop ringing everywhere else and tell
+ * other devices the call was picked up by another family member.
+ */
+const accept = async (app: FastifyInstance, callId: string, call: CallData, legChannelId: string, answeredBy: AnsweredBy) => {
+  const { bridgeId, channelId } = call;
+  if (!bridgeId || !channelId) return;
+  await setChannelSession(legChannelId, { callId, bridgeId }, call.ttlSec ?? env.callTokenTtlSec);
+  try {
+    await addChannelToBridge(bridgeId, legChannelId);
+  } catch (error) {
+    app.log.warn({ err: error, callId, channelId: legChannelId, bridgeId }, "Failed to add answering device to bridge, retrying");
+    await new Promise((r) => setTimeout(r, JOIN_BRIDGE_RETRY_MS));
+    try {
+      await addChannelToBridge(bridgeId, legChannelId);
+    } catch (retryError) {
+      app.log.error({ err: retryError, callId, channelId: legChannelId, bridgeId }, "CRITICAL: Answering device could not join the bridge");
+      return;
+    }
+  }
+  try {
+    await answerChannel(channelId);
+    app.log.info({ callId, channelId, legChannelId }, "Domophone channel answered, call connected");
+  } catch (error) {
+    app.log.warn({ err: error, callId, channelId }, "Failed to answer domophone channel, may already be answered");
+  }
+
+  if (call.startedAt) {
+    callAnswerSeconds.observe((Date.now() - call.startedAt) / 1000);
+  }
+  await startCallRecording(app, callId, call);
+
+  const winner = answeredBy.device;
+  try {
+    if (answeredBy.userId !== null) {
+      await markCallAnswered(callId, answeredBy.userId, answeredBy.status);
+    } else {
+      await updateCallStatus(callId, answeredBy.status);
+    }
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to write accepted status to call history");
+  }
+
+  await stopRinging(app, callId, call, legChannelId);
+
+  await sendEndedElsewhere(app, callId, call, winner, "answered_elsewhere");
+};
+
+/**
+ * Panel or answered device is gone: tear the call down and, if nobody picked up, tell the devices.
+ */
+const end = async (app: FastifyInstance, callId: string, from: CallStatus, call: CallData) => {
+  if (call.bridgeId) {
+    await destroyBridge(app, call.bridgeId, null);
+  }
+  try {
+    await finishCallRecord(callId);
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to finish call history record");
+  }
+  const wasRinging = isCallRinging(from) || from === "forwarding";
+  if (wasRinging) {
+    await stopRinging(app, callId, call, null);
+  }
+
+  if (wasRinging || from === "timeout") {
+    const targets = call.notifyTargets ?? call.devices ?? [];
+    if (targets.length === 0) {
+      app.log.debug({ callId, panelIp: call.panelIp, apartment: call.apartment }, "No devices for call-ended push, skipping push");
+    } else {
+      const reason = from === "timeout" ? "timeout" : "caller_hung_up";
+      try {
+        const { invalidTokens, errors } = await sendCallEndedPush(targets, {
+          type: "SIP_CALL_ENDED",
+          callId,
+          address: call.address ?? "",
+          reason,
+        });
+        logPushErrors(app, callId, errors, "Push provider failed for call-ended push");
+        await removeInvalidTokens(app, callId, targets, invalidTokens);
+        app.log.info({ callId, reason, tokensCount: targets.length }, "Call-ended push sent");
+      } catch (error) {
+        app.log.warn({ err: error, callId }, "Failed to send call-ended push");
+      }
+    }
+  }
+  if (call.domophoneEndpointId) {
+    await clearActiveIncomingFromPanel(call.domophoneEndpointId);
+  }
+};
+
+/**
+ * The one place where call side effects run, after the status change was stored.
+ */
+const applyTransition = async (
+  app: FastifyInstance,
+  callId: string,
+  from: CallStatus,
+  call: CallData,
+  transition: CallTransition
+) => {
+  switch (transition.to) {
+    case "ringing":
+      await ring(app, callId, call, transition);
+      return;
+    case "accepted": {
+      incomingCalls.inc({ outcome: "accepted" });
+      const device = call.devices?.find((d) => d.endpointId === transition.endpointId) ?? null;
+      await accept(app, callId, call, transition.legChannelId, { status: "accepted", userId: device?.userId ?? null, device });
+      return;
+    }
+    case "forwarding":
+      await forward(app, callId, call);
+      return;
+    case "forwarded":
+      incomingCalls.inc({ outcome: "forwarded" });
+      await accept(app, callId, call, transition.legChannelId, { status: "forwarded", userId: transition.userId, device: null });
+      return;
+    case "rejected":
+      incomingCalls.inc({ outcome: "rejected" });
+      await writeHistoryStatus(app, callId, "rejected");
+      await stopRinging(app, callId, call, null);
+      await releasePanel(app, callId, call, "busy");
+      if (call.domophoneEndpointId) await clearActiveIncomingFromPanel(call.domophoneEndpointId);
+      await sendEndedElsewhere(app, callId, call, transition, "rejected_elsewhere");
+      return;
+    case "timeout":
+      incomingCalls.inc({ outcome: "timeout" });
+      app.log.warn({ callId, ringDeadlineAt: call.ringDeadlineAt }, "Incoming call timed out");
+      await writeHistoryStatus(app, callId, "timeout");
+      await stopRinging(app, callId, call, null);
+      if (call.voicemailMaxSec && call.channelId) {
+        // The panel leaves the bridge first: a bridged channel cannot be recorded on its own.
+        if (call.bridgeId) await destroyBridge(app, call.bridgeId, call.channelId);
+        if (!(await startVoicemail(app, callId, call))) {
+          await releasePanel(app, callId, call, "noanswer");
+        }
+      } else {
+        await releasePanel(app, callId, call, "noanswer");
+      }
+      if (call.domophoneEndpointId) await clearActiveIncomingFromPanel(call.domophoneEndpointId);
+      return;
+    case "ended":
+      if (isCallRinging(from) || from === "forwarding") incomingCalls.inc({ outcome: "caller_hung_up" });
+      await end(app, callId, from, call);
+      return;
+  }
+};
+
+/**
+ * Move an incoming call to transition.to and run its side effects.
+ * The change is atomic; returns false (and does nothing) when the call is gone or the
+ * transition is not allowed from its current status — e.g. a second device answering.
+ */
+export const transitionCall = async (
+  app: FastifyInstance,
+  callId: string,
+  transition: CallTransition
+): Promise<boolean> => {
+  const result = await updateCallData<CallData>(callId, (current) => {
+    if (!current.status || !canTransition(current.status, transition.to)) return null;
+    const next: CallData = { ...current, status: transition.to };
+    if (transition.to === "ringing") {
+      next.ringDeadlineAt = Date.now() + transition.ringTimeoutSec * 1000;
+    }
+    if (transition.to === "forwarding") {
+      next.ringDeadlineAt = Date.now() + env.forwardRingTimeoutSec * 1000;
+    }
+    if (transition.to === "forwarded") {
+      next.userId = transition.userId;
+    }
+    if (transition.to === "accepted") {
+      const winner = current.devices?.find((d) => d.endpointId === transition.endpointId);
+      if (winner) next.userId = winner.userId;
+    }
+    return next;
+  });
+  const from = result?.previous.status;
+  if (!result || !from) {
+    app.log.debug({ callId, to: transition.to }, "Call transition ignored");
+    return false;
+  }
+  app.log.info({ callId, from, to: transition.to }, "Call status changed");
+  if (transition.to !== "ringing") {
+    clearTimeout(ringTimers.get(callId));
+    ringTimers.delete(callId);
+  }
+  await applyTransition(app, callId, from, result.next, transition);
+  return true;
+};
@@ -0,0 +1,35 @@
+import type { CallStatus } from "../types";
+
+/**
+ * Allowed status changes of an incoming call. Anything not listed is ignored by transitionCall,
+ * which is what settles races (e.g. ring timeout vs. answer, two devices answering at once).
+ */
+const TRANSITIONS: Record<CallStatus, readonly CallStatus[]> = {
+  pending: ["ringing", "ended"],
+  ringing: ["accepted", "forwarded", "forwarding", "rejected", "timeout", "ended"],
+  // Devices already rung may still answer while the forward phones ring.
+  forwarding: ["accepted", "forwarded", "rejected", "timeout", "ended"],
+  accepted: ["ended"],
+  forwarded: ["ended"],
+  rejected: ["ended"],
+  timeout: ["ended"],
+  ended: [],
+};
+
+export const canTransition = (from: CallStatus, to: CallStatus) => TRANSITIONS[from].includes(to);
+
+/**
+ * Devices may still be rung (originates scheduled, nobody answered yet).
+ */
+export const isCallRinging = (status: CallStatus | undefined) => status === "pending" || status === "ringing";
+
+/**
+ * Someone is talking to the panel: a device or a forward phone answered.
+ */
+export const isCallAnswered = (status: CallStatus | undefined) => status === "accepted" || status === "forwarded";
+
+/**
+ * Panel is still connected to us: ringing, forwarding or talking (e.g. door may be opened).
+ */
+export const isCallActive = (status: CallStatus | undefined) =>
+  isCallRinging(status) || status === "forwarding" || isCallAnswered(status);
@@ -0,0 +1,136 @@
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import {
+  answerChannel,
+  continueInDialplan,
+  deleteStoredRecording,
+  getStoredRecordingFile,
+  hangupChannel,
+  playMedia,
+  recordChannel,
+} from "../ari/client";
+import { setCallVoicemail } from "../store/postgres";
+import { getCallData } from "../store/redis";
+import { sendVoiceMessagePush } from "../push/dispatch";
+import { saveObject } from "../storage/objects";
+import { logPushErrors, removeInvalidTokens } from "./pushTokens";
+
+import type { AriPlaybackFinishedEvent, AriRecordingFinishedEvent, CallData } from "../types";
+
+/** Asterisk core sound: "leave your message after the tone, hang up or press pound when done". */
+const VOICEMAIL_PROMPT = "sound:vm-intro";
+
+/** Upper bound of the prompt length; ring timeout, prompt and message must fit into the call TTL. */
+export const VOICEMAIL_PROMPT_SEC = 10;
+
+/** Playback id and stored recording name of a call's voice message. */
+const VOICEMAIL_PREFIX = "voicemail-";
+
+const voicemailCallId = (name: string) => (name.startsWith(VOICEMAIL_PREFIX) ? name.slice(VOICEMAIL_PREFIX.length) : null);
+
+/**
+ * Nobody answered and the panel takes voice messages: answer the panel channel (already out of the bridge)
+ * and play the prompt; recording starts once it finishes. Returns false when the panel should get noanswer instead.
+ */
+export const startVoicemail = async (app: FastifyInstance, callId: string, call: CallData): Promise<boolean> => {
+  if (!call.channelId || !call.voicemailMaxSec) return false;
+  try {
+    await answerChannel(call.channelId);
+    await playMedia(call.channelId, VOICEMAIL_PROMPT, `${VOICEMAIL_PREFIX}${callId}`);
+    app.log.info({ callId, channelId: call.channelId }, "Nobody answered - taking a voice message");
+    return true;
+  } catch (error) {
+    app.log.warn({ err: error, callId, channelId: call.channelId }, "Failed to start voice message prompt");
+    return false;
+  }
+};
+
+/**
+ * Prompt finished: record the visitor for up to call.voicemailMaxSec ("#" stops early).
+ * Returns false when the playback is not a voice message prompt.
+ */
+export const onVoicemailPromptFinished = async (
+  app: FastifyInstance,
+  { playback }: AriPlaybackFinishedEvent
+): Promise<boolean> => {
+  const callId = voicemailCallId(playback.id);
+  if (!callId) return false;
+  const call = await getCallData<CallData>(callId);
+  // Visitor hung up during the prompt: the call is already ended.
+  if (call?.status !== "timeout" || !call.channelId || !call.voicemailMaxSec) return true;
+  try {
+    await recordChannel(call.channelId, {
+      name: playback.id,
+      format: "wav",
+      maxDurationSeconds: call.voicemailMaxSec,
+      beep: true,
+      terminateOn: "#",
+    });
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to start voice message recording - sending domophone to noanswer");
+    try {
+      await continueInDialplan(call.channelId, "from-domophone", "noanswer", 1);
+    } catch (err) {
+      app.log.debug({ err, callId }, "continueInDialplan failed (channel may already be down)");
+    }
+  }
+  return true;
+};
+
+/**
+ * Recording stopped (length reached, "#" or the visitor hung up): hang up the panel, move the file from
+ * Asterisk to our storage, attach it to the call history and push "new message from the door" to the residents.
+ * Returns false when the recording is not a voice message.
+ */
+export const onVoicemailRecorded = async (
+  app: FastifyInstance,
+  { recording }: AriRecordingFinishedEvent
+): Promise<boolean> => {
+  const callId = voicemailCallId(recording.name);
+  if (!callId) return false;
+  const call = await getCallData<CallData>(callId);
+  if (call?.channelId) {
+    try {
+      await hangupChannel(call.channelId);
+    } catch (err) {
+      app.log.debug({ err, callId }, "Domophone channel already down after voice message");
+    }
+  }
+
+  const key = `${callId}.wav`;
+  try {
+    if (recording.duration === 0) {
+      app.log.info({ callId }, "Empty voice message discarded");
+      return true;
+    }
+    await saveObject(key, await getStoredRecordingFile(recording.name));
+    await setCallVoicemail(callId, key);
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to store voice message");
+    return true;
+  } finally {
+    try {
+      await deleteStoredRecording(recording.name);
+    } catch (err) {
+      app.log.debug({ err, callId }, "Stored recording already deleted");
+    }
+  }
+  app.log.info({ callId, durationSec: recording.duration }, "Voice message stored");
+
+  const targets = call?.notifyTargets ?? [];
+  if (targets.length === 0) return true;
+  try {
+    const { invalidTokens, errors } = await sendVoiceMessagePush(targets, {
+      type: "VOICE_MESSAGE",
+      callId,
+      address: call?.address ?? "",
+      url: `${env.publicBaseUrl}/calls/${callId}/voicemail`,
+    });
+    logPushErrors(app, callId, errors, "Push provider failed for voice message push");
+    await removeInvalidTokens(app, callId, targets, invalidTokens);
+    app.log.info({ callId, tokensCount: targets.length }, "Voice message push sent");
+  } catch (error) {
+    app.log.warn({ err: error, callId }, "Failed to send voice message push");
+  }
+  return true;
+};
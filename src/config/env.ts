@@ -10,15 +10,33 @@ const requireEnv = (key: string) => {
   return value;
 };
 
+const parseUnpaidCallAction = (value: string | undefined): "notpaid" | "noanswer" | "allow" => {
+  if (value === "noanswer" || value === "allow") return value;
+  return "notpaid";
+};
+
+const parseDndCallAction = (value: string | undefined): "noanswer" | "busy" => {
+  return value === "busy" ? "busy" : "noanswer";
+};
+
+const parseObjectStorage = (value: string | undefined): "local" | "s3" => {
+  return value === "s3" ? "s3" : "local";
+};
+
 const parsePort = (value: string, defaultPort: number) => {
   const n = parseInt(value, 10);
   return Number.isNaN(n) ? defaultPort : n;
 };
 
+const appPort = parsePort(process.env.SERVER_PORT ?? "3000", 3000);
+const serverDomain = requireEnv("SERVER_DOMAIN");
+
 export const env = {
-  appPort: parsePort(process.env.SERVER_PORT ?? "3000", 3000),
+  appPort,
   logLevel: process.env.LOG_LEVEL ?? "info",
-  serverDomain: requireEnv("SERVER_DOMAIN"),
+  serverDomain,
+  /** Base URL the app reaches this backend at (used in signed links, e.g. stored objects). */
+  publicBaseUrl: (process.env.PUBLIC_BASE_URL || `https://${serverDomain}:${appPort}`).replace(/\/+$/, ""),
   serverIp: requireEnv("SERVER_IP"),
   ariHost: process.env.ARI_HOST ?? "127.0.0.1",
   ariPort: parsePort(process.env.ARI_PORT ?? "8088", 8088),
@@ -26,7 +44,21 @@ export const env = {
   ariPassword: requireEnv("ARI_PASSWORD"),
   ariAppName: "intercom",
   callTokenTtlSec: 300,
+  authTokenSecret: requireEnv("AUTH_TOKEN_SECRET"),
+  accessTokenTtlSec: 900,
+  refreshTokenTtlSec: 30 * 24 * 3600,
+  adminApiToken: process.env.ADMIN_API_TOKEN || "",
+  /** Bearer token for GET /metrics; empty = no auth (scrape only from a trusted network). */
+  metricsToken: process.env.METRICS_TOKEN || "",
   ringTimeoutSec: 15,
+  /** How long residents' forward phones ring (multifon) before the panel hears "no answer". */
+  forwardRingTimeoutSec: 30,
+  /** Longest live view of a panel camera from the app (no call); the viewer is hung up after it. */
+  liveViewMaxSec: 120,
+  /** What to do with a panel call when no resident has an active subscription: from-domophone extension or "allow". */
+  unpaidCallAction: parseUnpaidCallAction(process.env.UNPAID_CALL_ACTION),
+  /** from-domophone extension for a panel call when every resident to ring is in do-not-disturb. */
+  dndCallAction: parseDndCallAction(process.env.DND_CALL_ACTION),
   redisHost: process.env.REDIS_HOST ?? "127.0.0.1",
   redisPort: parsePort(process.env.REDIS_PORT ?? "6379", 6379),
   redisPassword: requireEnv("REDIS_PASSWORD"),
@@ -38,4 +70,28 @@ export const env = {
     password: requireEnv("POSTGRES_PASSWORD"),
   },
   firebaseServiceAccountPath: process.env.FIREBASE_SERVICE_ACCOUNT_PATH || "",
+  /**
+   * Panel snapshots, voice messages and call recordings: local directory or S3-compatible bucket.
+   * SNAPSHOT_STORAGE / SNAPSHOT_DIR are the old names, still read when the OBJECT_STORAGE* ones are unset.
+   */
+  objectStorage: {
+    storage: parseObjectStorage(process.env.OBJECT_STORAGE || process.env.SNAPSHOT_STORAGE),
+    dir: process.env.OBJECT_STORAGE_DIR || process.env.SNAPSHOT_DIR || "/var/lib/intercom-backend/snapshots",
+    urlTtlSec: 600,
+    s3: {
+      endpoint: (process.env.S3_ENDPOINT || "").replace(/\/+$/, ""),
+      region: process.env.S3_REGION || "us-east-1",
+      bucket: process.env.S3_BUCKET || "",
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || "",
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || "",
+    },
+  },
+  /** APNs token auth (.p8 key from Apple Developer → Keys); empty = no iOS pushes. */
+  apns: {
+    keyPath: process.env.APNS_KEY_PATH || "",
+    keyId: process.env.APNS_KEY_ID || "",
+    teamId: process.env.APNS_TEAM_ID || "",
+    bundleId: process.env.APNS_BUNDLE_ID || "",
+    production: process.env.APNS_PRODUCTION !== "false",
+  },
 };
@@ -0,0 +1,28 @@
+import crypto from "crypto";
+import { env } from "../config/env";
+
+const passSignature = (passId: number) =>
+  crypto.createHmac("sha256", env.authTokenSecret).update(`guest-pass:${passId}`).digest("base64url");
+
+/**
+ * Token of a guest pass: "<passId>.<signature>". It only proves the pass id; validity and uses live in Postgres,
+ * so a pass can be revoked.
+ */
+export const guestPassToken = (passId: number) => `${passId}.${passSignature(passId)}`;
+
+/**
+ * Pass id of a token with a valid signature, else null.
+ */
+export const parseGuestPassToken = (token: string): number | null => {
+  const match = /^(\d{1,15})\.([A-Za-z0-9_-]{43})$/.exec(token);
+  if (!match) return null;
+  const passId = Number(match[1]);
+  const expected = Buffer.from(passSignature(passId));
+  const actual = Buffer.from(match[2]!);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual) ? passId : null;
+};
+
+/**
+ * Link the guest opens (and the QR code encodes): POST to it opens the door.
+ */
+export const guestPassUrl = (token: string) => `${env.publicBaseUrl}/guest-passes/${token}/open`;
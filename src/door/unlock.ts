@@ -0,0 +1,32 @@
+import { sendDtmf } from "../ari/client";
+import { panelFetch } from "./panelFetch";
+
+import type { PanelRecord } from "../store/postgres";
+
+const HTTP_UNLOCK_TIMEOUT_MS = 5000;
+
+export type OpenDoorResult = "opened" | "not_configured" | "channel_required";
+
+/**
+ * Open panel door using the panel's configured unlock method.
+ * - dtmf: sends unlock_dtmf into the live panel channel (only possible during a call)
+ * - http: GET unlock_url on the panel relay
+ * Throws when the ARI/HTTP request itself fails.
+ */
+export const openDoor = async (
+  panel: Pick<PanelRecord, "unlock_method" | "unlock_dtmf" | "unlock_url">,
+  panelChannelId: string | null
+): Promise<OpenDoorResult> => {
+  if (panel.unlock_method === "dtmf" && panel.unlock_dtmf) {
+    if (!panelChannelId) return "channel_required";
+    await sendDtmf(panelChannelId, panel.unlock_dtmf);
+    return "opened";
+  }
+
+  if (panel.unlock_method === "http" && panel.unlock_url) {
+    await panelFetch(panel.unlock_url, HTTP_UNLOCK_TIMEOUT_MS);
+    return "opened";
+  }
+
+  return "not_configured";
+};
@@ -0,0 +1,88 @@
+import { execFile } from "node:child_process";
+import { promisify } from "node:util";
+import { getAsteriskInfo, isAriEventsConnected } from "../ari/client";
+import { loadFirebaseCredentials } from "../push/fcm";
+import { pingDatabase } from "../store/postgres";
+import { pingRedis } from "../store/redis";
+
+const execFileAsync = promisify(execFile);
+
+/** A dependency that takes longer than this counts as down. */
+const CHECK_TIMEOUT_MS = 2000;
+/** Outbound registration of the OTP trunk (deploy/ADD_MULTIFON.md). */
+const MULTIFON_REGISTRATION_ID = "multifon-registration";
+
+export type ComponentStatus = {
+  ok: boolean;
+  latencyMs: number;
+  error?: string;
+};
+
+export type Readiness = {
+  ok: boolean;
+  components: Record<string, ComponentStatus>;
+};
+
+const withTimeout = async <T>(promise: Promise<T>, ms: number): Promise<T> => {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+  });
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+const runCheck = async (check: () => Promise<void>): Promise<ComponentStatus> => {
+  const startedAt = Date.now();
+  try {
+    await withTimeout(check(), CHECK_TIMEOUT_MS);
+    return { ok: true, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      ok: false,
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+};
+
+/**
+ * Ask Asterisk CLI for the multifon outbound registration; throws unless it is Registered.
+ */
+const checkMultifonRegistration = async () => {
+  const { stdout } = await execFileAsync("asterisk", ["-rx", `pjsip show registration ${MULTIFON_REGISTRATION_ID}`]);
+  // e.g. " multifon-registration/sip:sbc.megafon.ru:5060   multifon-auth   Registered   (exp. 170s)"
+  const line = stdout.split("\n").find((l) => l.trim().startsWith(`${MULTIFON_REGISTRATION_ID}/`));
+  const status = line?.match(/\b(Registered|Unregistered|Rejected|Stopped)\b/)?.[1];
+  if (status !== "Registered") {
+    throw new Error(`Registration status: ${status ?? "not found"}`);
+  }
+};
+
+const checkAriEvents = async () => {
+  if (!isAriEventsConnected()) throw new Error("ARI WebSocket is not connected");
+};
+
+/**
+ * Check every dependency in parallel. The backend is ready only when all of them are ok.
+ */
+export const checkReadiness = async (): Promise<Readiness> => {
+  const checks: Record<string, () => Promise<void>> = {
+    postgres: pingDatabase,
+    redis: pingRedis,
+    ariEvents: checkAriEvents,
+    ariRest: async () => {
+      await getAsteriskInfo();
+    },
+    multifon: checkMultifonRegistration,
+    firebase: loadFirebaseCredentials,
+  };
+  const entries = await Promise.all(
+    Object.entries(checks).map(async ([name, check]) => [name, await runCheck(check)] as const)
+  );
+  const components = Object.fromEntries(entries);
+  return { ok: entries.every(([, status]) => status.ok), components };
+};
@@ -0,0 +1,37 @@
+import { getOtpQueueLength } from "../store/redis";
+import { counter, gauge, histogram } from "./prometheus";
+
+export { METRICS_CONTENT_TYPE, renderMetrics } from "./prometheus";
+
+export const incomingCalls = counter<"outcome">(
+  "intercom_incoming_calls_total",
+  "Incoming panel calls by outcome: accepted, forwarded, rejected, timeout or caller_hung_up (panel left while ringing)."
+);
+
+export const callAnswerSeconds = histogram(
+  "intercom_call_answer_seconds",
+  "Time from the panel call reaching the backend to a resident answering.",
+  [1, 2, 3, 5, 8, 10, 15, 20, 30]
+);
+
+export const originateRetries = counter(
+  "intercom_originate_retries_total",
+  "Failed originates to resident devices that were scheduled for a retry."
+);
+
+export const authEvents = counter<"tag">(
+  "intercom_auth_events_total",
+  "OTP request / verify outcomes by auth log tag (AUTH_REQ_*, AUTH_VERIFY_*, AUTH_QUEUE_*...)."
+);
+
+gauge("intercom_otp_queue_length", "OTP calls waiting in the otp:queue list.", getOtpQueueLength);
+
+export const fcmMessages = counter<"result">(
+  "intercom_fcm_messages_total",
+  "FCM messages by result: success, invalid (token rejected), error (other per-token failure) or failure (whole send failed)."
+);
+
+export const ariReconnects = counter(
+  "intercom_ari_ws_reconnects_total",
+  "ARI events WebSocket reconnect attempts."
+);
@@ -0,0 +1,93 @@
+/**
+ * Minimal Prometheus text exposition (format 0.0.4): counters, histograms and gauges read on scrape.
+ * Metrics live in process memory and start from zero after a restart, as Prometheus expects.
+ */
+
+type Labels = Record<string, string>;
+
+/** Renders one metric family (HELP, TYPE and samples). */
+type Collector = () => Promise<string[]>;
+
+const collectors: Collector[] = [];
+
+const escapeLabelValue = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+const formatLabels = (labels: Labels) => {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return "";
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(",")}}`;
+};
+
+const header = (name: string, help: string, type: "counter" | "histogram" | "gauge") => [
+  `# HELP ${name} ${help}`,
+  `# TYPE ${name} ${type}`,
+];
+
+/**
+ * Monotonic counter, optionally split by labels (e.g. outcome).
+ */
+export const counter = <L extends string = never>(name: string, help: string) => {
+  const values = new Map<string, { labels: Labels; value: number }>();
+  collectors.push(async () => [
+    ...header(name, help, "counter"),
+    ...[...values.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+  ]);
+  return {
+    inc: (labels = {} as Record<L, string>, by = 1) => {
+      const key = formatLabels(labels);
+      const current = values.get(key);
+      values.set(key, { labels, value: (current?.value ?? 0) + by });
+    },
+  };
+};
+
+/**
+ * Histogram with fixed upper bounds (seconds, counts...), no labels.
+ */
+export const histogram = (name: string, help: string, buckets: number[]) => {
+  const bounds = [...buckets].sort((a, b) => a - b);
+  const counts = bounds.map(() => 0);
+  let sum = 0;
+  let count = 0;
+  collectors.push(async () => [
+    ...header(name, help, "histogram"),
+    ...bounds.map((le, i) => `${name}_bucket{le="${le}"} ${counts[i]}`),
+    `${name}_bucket{le="+Inf"} ${count}`,
+    `${name}_sum ${sum}`,
+    `${name}_count ${count}`,
+  ]);
+  return {
+    observe: (value: number) => {
+      bounds.forEach((le, i) => {
+        if (value <= le) counts[i] = (counts[i] ?? 0) + 1;
+      });
+      sum += value;
+      count += 1;
+    },
+  };
+};
+
+/**
+ * Gauge read on every scrape (e.g. queue length). A failing read drops the sample, not the scrape.
+ */
+export const gauge = (name: string, help: string, read: () => Promise<number>) => {
+  collectors.push(async () => {
+    try {
+      return [...header(name, help, "gauge"), `${name} ${await read()}`];
+    } catch {
+      return header(name, help, "gauge");
+    }
+  });
+};
+
+/** Content-Type of renderMetrics() output. */
+export const METRICS_CONTENT_TYPE = "text/plain; version=0.0.4; charset=utf-8";
+
+/**
+ * All registered metrics in Prometheus text format.
+ */
+export const renderMetrics = async () => {
+  const families = await Promise.all(collectors.map((collect) => collect()));
+  return `${families.flat().join("\n")}\n`;
+};
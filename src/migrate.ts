@@ -0,0 +1,38 @@
+import { closeDatabase } from "./store/postgres";
+import { getMigrationStatus, runMigrations } from "./store/migrations";
+
+/**
+ * Migrations CLI (uses the same .env as the server):
+ *   npm run migrate           apply pending migrations
+ *   npm run migrate -- status list migrations and when they were applied
+ */
+const main = async (command: string) => {
+  switch (command) {
+    case "up": {
+      const applied = await runMigrations();
+      if (applied.length === 0) {
+        console.log("Schema is up to date");
+      }
+      for (const migration of applied) {
+        console.log(`Applied ${migration.file}`);
+      }
+      return;
+    }
+    case "status": {
+      for (const migration of await getMigrationStatus()) {
+        const state = migration.appliedAt ? `applied ${migration.appliedAt.toISOString()}` : "pending";
+        console.log(`${migration.file}\t${state}`);
+      }
+      return;
+    }
+    default:
+      throw new Error(`Unknown command "${command}" (expected: up, status)`);
+  }
+};
+
+main(process.argv[2] ?? "up")
+  .catch((error) => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+  })
+  .finally(() => closeDatabase());
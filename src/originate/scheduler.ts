@@ -0,0 +1,156 @@
+import crypto from "crypto";
+import { FastifyInstance } from "fastify";
+import {
+  claimPendingOriginate,
+  deletePendingOriginate,
+  getCallData,
+  getDueOriginates,
+  getNextOriginateAt,
+  releasePendingOriginate,
+  setPendingOriginate,
+} from "../store/redis";
+
+import { isCallRinging } from "../call/status";
+import { originateRetries } from "../metrics";
+
+import type { PendingOriginate } from "../store/redis";
+import type { CallData } from "../types";
+
+/** The app needs a moment after the push to wake up and register; first try is not immediate. */
+const FIRST_ATTEMPT_DELAY_MS = 1000;
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 3000;
+/** Longer than an ARI originate request may take; the claim blocks other attempts meanwhile. */
+const CLAIM_LEASE_MS = 10000;
+const DUE_BATCH_SIZE = 50;
+/** Re-check the schedule after Redis errors. */
+const ERROR_RETRY_MS = 1000;
+
+type OriginateFn = (endpointId: string, pending: PendingOriginate) => Promise<void>;
+
+let app: FastifyInstance | null = null;
+let originate: OriginateFn | null = null;
+let timer: NodeJS.Timeout | null = null;
+let timerAt = Infinity;
+/** Failed attempts per endpoint (backoff); forgotten when the originate completes or is gone. */
+const attempts = new Map<string, number>();
+
+const retryDelayMs = (failedAttempts: number) =>
+  Math.min(RETRY_BASE_DELAY_MS * 2 ** (failedAttempts - 1), RETRY_MAX_DELAY_MS);
+
+/** Devices keep ringing while residents' phones are rung (forwarding): either may pick up. */
+const isStillRinging = (callData: CallData | null, endpointId: string) =>
+  (isCallRinging(callData?.status) || callData?.status === "forwarding") &&
+  ((callData.devices ?? []).some((d) => d.endpointId === endpointId) || callData.endpointId === endpointId);
+
+/**
+ * Arm the single wake-up timer for atMs unless it is already armed earlier.
+ */
+const wakeAt = (atMs: number) => {
+  if (!originate || (timer && atMs >= timerAt)) return;
+  if (timer) clearTimeout(timer);
+  timerAt = atMs;
+  timer = setTimeout(() => void runDue(), Math.max(0, atMs - Date.now()));
+};
+
+const armNext = async () => {
+  const next = await getNextOriginateAt();
+  if (next !== null) wakeAt(next);
+};
+
+/**
+ * One originate attempt for endpoint under an atomic claim.
+ * On failure schedules a retry with backoff; the pending key TTL (ring timeout) ends retries.
+ */
+const attempt = async (endpointId: string) => {
+  if (!app || !originate) return;
+  const token = crypto.randomUUID();
+  const pending = await claimPendingOriginate(endpointId, token, CLAIM_LEASE_MS);
+  if (!pending) {
+    attempts.delete(endpointId);
+    app.log.debug({ endpointId }, "Originate not claimed (gone or in progress elsewhere)");
+    return;
+  }
+
+  const callData = await getCallData<CallData>(pending.callId);
+  if (!isStillRinging(callData, endpointId)) {
+    await deletePendingOriginate(endpointId);
+    attempts.delete(endpointId);
+    app.log.info(
+      { endpointId, callId: pending.callId, status: callData?.status },
+      "Dropped stale pending originate: call is no longer ringing"
+    );
+    return;
+  }
+
+  try {
+    await originate(endpointId, pending);
+    await deletePendingOriginate(endpointId);
+    attempts.delete(endpointId);
+    app.log.info({ endpointId, callId: pending.callId, bridgeId: pending.bridgeId }, "Originated call to device endpoint");
+  } catch (error) {
+    originateRetries.inc();
+    const failed = (attempts.get(endpointId) ?? 0) + 1;
+    attempts.set(endpointId, failed);
+    const retryAt = Date.now() + retryDelayMs(failed);
+    await releasePendingOriginate(endpointId, token, retryAt);
+    wakeAt(retryAt);
+    app.log.debug({ err: error, endpointId, failedAttempts: failed }, "Originate failed, endpoint may not be registered yet; will retry");
+  }
+};
+
+const runDue = async () => {
+  timer = null;
+  timerAt = Infinity;
+  if (!app) return;
+  try {
+    const due = await getDueOriginates(Date.now(), DUE_BATCH_SIZE);
+    await Promise.all(
+      due.map((endpointId) =>
+        attempt(endpointId).catch((error) => {
+          app?.log.warn({ err: error, endpointId }, "Originate attempt failed");
+        })
+      )
+    );
+    await armNext();
+  } catch (error) {
+    app.log.warn({ err: error }, "Originate scheduler failed to read schedule");
+    wakeAt(Date.now() + ERROR_RETRY_MS);
+  }
+};
+
+/**
+ * Queue originate to a resident device endpoint until it registers or ttlSec (ring timeout) passes.
+ */
+export const scheduleOriginate = async (endpointId: string, pending: PendingOriginate, ttlSec: number) => {
+  const firstAttemptAt = Date.now() + FIRST_ATTEMPT_DELAY_MS;
+  await setPendingOriginate(endpointId, pending, ttlSec, firstAttemptAt);
+  wakeAt(firstAttemptAt);
+};
+
+/**
+ * Endpoint came online (EndpointStateChange): try right away instead of waiting for the next retry.
+ */
+export const triggerOriginate = async (endpointId: string) => {
+  await attempt(endpointId);
+};
+
+/**
+ * Start processing scheduled originates. originate must throw when the endpoint cannot be called yet.
+ * Picks up attempts left in Redis by a previous process.
+ */
+export const startOriginateScheduler = async (fastify: FastifyInstance, originateFn: OriginateFn) => {
+  app = fastify;
+  originate = originateFn;
+  await armNext();
+};
+
+/**
+ * Stop the wake-up timer (shutdown). Scheduled attempts stay in Redis.
+ */
+export const stopOriginateScheduler = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  timerAt = Infinity;
+  originate = null;
+};
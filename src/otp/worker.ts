@@ -2,6 +2,7 @@ import { execFile } from "node:child_process";
 import { promisify } from "node:util";
 import { FastifyInstance } from "fastify";
 import { originateToDialplan } from "../ari/client";
+import { authEvents } from "../metrics";
 import { deleteOtp, getOtp } from "../store/redis/otp/codes";
 import {
   deleteOtpChannel,
@@ -42,6 +43,7 @@ const logOtpLine = (
 ) => {
   const line = `[${tag}] ${message} ip=${ip} phone=${phone} route=${route}`;
   app.log[level](line);
+  authEvents.inc({ tag });
 };
 
 const isClientIpBanned = async (ip: string, app: FastifyInstance): Promise<boolean> => {
@@ -112,19 +114,34 @@ const handleOtpCall = async (app: FastifyInstance) => {
   }
 };
 
+let running = false;
+let loop: Promise<void> | null = null;
+
 /**
  * Start persistent OTP queue consumer loop.
- * Runs indefinitely; each iteration isolates its own errors.
+ * Runs until stopOtpWorker(); each iteration isolates its own errors.
  */
 export const startOtpWorker = async (app: FastifyInstance) => {
   app.log.info("OTP worker started");
-  while (true) {
-    try {
-      await handleOtpCall(app);
-    } catch (err) {
-      app.log.warn({ err }, "otp worker loop iteration failed");
+  running = true;
+  loop = (async () => {
+    while (running) {
+      try {
+        await handleOtpCall(app);
+      } catch (err) {
+        app.log.warn({ err }, "otp worker loop iteration failed");
+      }
     }
-  }
+  })();
+  await loop;
+};
+
+/**
+ * Stop taking jobs and wait for the current one (at most one BLPOP timeout plus an originate).
+ */
+export const stopOtpWorker = async () => {
+  running = false;
+  await loop;
 };
 
 /**
@@ -0,0 +1,120 @@
+import "../test/setup-env";
+import test, { after, before } from "node:test";
+import assert from "node:assert/strict";
+import crypto from "crypto";
+import http2 from "http2";
+import type { AddressInfo } from "net";
+import { closeApns, sendApns } from "./apns";
+
+import type { ApnsConfig } from "./apns";
+
+type StubRequest = {
+  headers: http2.IncomingHttpHeaders;
+  body: Record<string, unknown>;
+};
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync("ec", { namedCurve: "prime256v1" });
+
+const requests: StubRequest[] = [];
+let server: http2.Http2Server;
+let config: ApnsConfig;
+
+/**
+ * Local cleartext HTTP/2 stub answering like APNs: 200 for "ok-*" tokens,
+ * 410 for "gone-*", 400 BadDeviceToken for "bad-*", 500 otherwise.
+ */
+before(async () => {
+  server = http2.createServer();
+  server.on("stream", (stream: http2.ServerHttp2Stream, headers: http2.IncomingHttpHeaders) => {
+    let body = "";
+    stream.setEncoding("utf8");
+    stream.on("data", (chunk: string) => {
+      body += chunk;
+    });
+    stream.on("end", () => {
+      requests.push({ headers, body: JSON.parse(body) as Record<string, unknown> });
+      const token = String(headers[":path"]).replace("/3/device/", "");
+      const respond = (status: number, reason?: string) => {
+        stream.respond({ ":status": status });
+        stream.end(reason ? JSON.stringify({ reason }) : undefined);
+      };
+      if (token.startsWith("ok-")) respond(200);
+      else if (token.startsWith("gone-")) respond(410, "Unregistered");
+      else if (token.startsWith("bad-")) respond(400, "BadDeviceToken");
+      else respond(500, "InternalServerError");
+    });
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  config = {
+    origin: `http://127.0.0.1:${port}`,
+    keyId: "KEY1234567",
+    teamId: "TEAM123456",
+    bundleId: "com.example.intercom",
+    privateKey: privateKey.export({ type: "pkcs8", format: "pem" }).toString(),
+  };
+});
+
+after(async () => {
+  closeApns();
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+});
+
+test("sends VoIP push with signed provider token and voip topic", async () => {
+  requests.length = 0;
+  const result = await sendApns(config, [
+    { token: "ok-1", pushType: "voip", priority: 10, expiration: 0, payload: { type: "SIP_CALL", callId: "c1" } },
+  ]);
+
+  assert.deepEqual(result.invalidTokens, []);
+  const [req] = requests;
+  assert.ok(req);
+  assert.equal(req.headers[":path"], "/3/device/ok-1");
+  assert.equal(req.headers["apns-topic"], "com.example.intercom.voip");
+  assert.equal(req.headers["apns-push-type"], "voip");
+  assert.equal(req.headers["apns-priority"], "10");
+  assert.equal(req.headers["apns-expiration"], "0");
+  assert.deepEqual(req.body, { type: "SIP_CALL", callId: "c1" });
+
+  const jwt = String(req.headers.authorization).replace("bearer ", "");
+  const [header, claims, signature] = jwt.split(".");
+  assert.ok(header && claims && signature);
+  assert.deepEqual(JSON.parse(Buffer.from(header, "base64url").toString()), { alg: "ES256", kid: "KEY1234567" });
+  assert.equal(JSON.parse(Buffer.from(claims, "base64url").toString()).iss, "TEAM123456");
+  const valid = crypto.verify(
+    "sha256",
+    Buffer.from(`${header}.${claims}`),
+    { key: publicKey, dsaEncoding: "ieee-p1363" },
+    Buffer.from(signature, "base64url")
+  );
+  assert.equal(valid, true);
+});
+
+test("uses bundle id as topic for regular pushes", async () => {
+  requests.length = 0;
+  await sendApns(config, [{ token: "ok-2", pushType: "alert", priority: 10, payload: { aps: {} } }]);
+
+  assert.equal(requests[0]?.headers["apns-topic"], "com.example.intercom");
+  assert.equal(requests[0]?.headers["apns-expiration"], undefined);
+});
+
+test("reports unregistered and bad tokens as invalid, keeps tokens with server errors", async () => {
+  const result = await sendApns(
+    config,
+    ["ok-3", "gone-1", "bad-1", "err-1"].map((token) => ({
+      token,
+      pushType: "voip" as const,
+      priority: 10 as const,
+      payload: {},
+    }))
+  );
+
+  assert.deepEqual(result.invalidTokens.sort(), ["bad-1", "gone-1"]);
+});
+
+test("throws when APNs is unreachable", async () => {
+  const unreachable = { ...config, origin: "http://127.0.0.1:1" };
+  await assert.rejects(
+    sendApns(unreachable, [{ token: "ok-4", pushType: "voip", priority: 10, payload: {} }])
+  );
+});
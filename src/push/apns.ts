@@ -0,0 +1,250 @@
+import * as fs from "fs";
+import crypto from "crypto";
+import http2 from "http2";
+import { env } from "../config/env";
+
+import type { FcmCallPayload, FcmCallEndedPayload, FcmVoiceMessagePayload } from "../types";
+
+const APNS_PRODUCTION_ORIGIN = "https://api.push.apple.com";
+const APNS_SANDBOX_ORIGIN = "https://api.sandbox.push.apple.com";
+/** APNs rejects provider tokens older than 1 hour and throttles refreshes more often than every 20 minutes. */
+const PROVIDER_TOKEN_TTL_SEC = 50 * 60;
+const APNS_REQUEST_TIMEOUT_MS = 10000;
+/** 400 reasons meaning the device token will never work for this app (remove from DB). */
+const INVALID_TOKEN_REASONS = new Set(["BadDeviceToken", "DeviceTokenNotForTopic"]);
+
+/** Connection and signing settings for APNs (token-based auth with a .p8 key). */
+export type ApnsConfig = {
+  /** https://api.push.apple.com, sandbox, or a local stub (http:// is h2c). */
+  origin: string;
+  keyId: string;
+  teamId: string;
+  bundleId: string;
+  /** Contents of the AuthKey_<keyId>.p8 file (PKCS#8 PEM, EC P-256). */
+  privateKey: string;
+};
+
+/** One APNs request: device token plus push type, priority and JSON body. */
+export type ApnsNotification = {
+  token: string;
+  pushType: "voip" | "alert" | "background";
+  priority: 5 | 10;
+  payload: Record<string, unknown>;
+  /** Unix seconds; 0 = deliver now or drop. Omitted = APNs stores and retries once. */
+  expiration?: number;
+};
+
+type ApnsResponse = {
+  status: number;
+  /** Error reason from the JSON body (e.g. "BadDeviceToken"), absent on success. */
+  reason: string | undefined;
+};
+
+let cachedProviderToken: { keyId: string; token: string; issuedAt: number } | null = null;
+const sessions = new Map<string, http2.ClientHttp2Session>();
+let envConfig: ApnsConfig | null = null;
+
+/**
+ * Lazily build APNs config from env (key file is read once).
+ */
+function ensureApns(): ApnsConfig {
+  if (envConfig) return envConfig;
+  const { keyPath, keyId, teamId, bundleId, production } = env.apns;
+  if (!keyPath || !keyId || !teamId || !bundleId) {
+    throw new Error(
+      "APNS_KEY_PATH, APNS_KEY_ID, APNS_TEAM_ID and APNS_BUNDLE_ID are required for iOS pushes."
+    );
+  }
+  envConfig = {
+    origin: production ? APNS_PRODUCTION_ORIGIN : APNS_SANDBOX_ORIGIN,
+    keyId,
+    teamId,
+    bundleId,
+    privateKey: fs.readFileSync(keyPath, "utf8"),
+  };
+  return envConfig;
+}
+
+/**
+ * ES256 provider token (JWT) signed with the .p8 key. Reused until it gets close to expiry.
+ */
+const getProviderToken = (config: ApnsConfig): string => {
+  const now = Math.floor(Date.now() / 1000);
+  if (
+    cachedProviderToken &&
+    cachedProviderToken.keyId === config.keyId &&
+    now - cachedProviderToken.issuedAt < PROVIDER_TOKEN_TTL_SEC
+  ) {
+    return cachedProviderToken.token;
+  }
+
+  const header = Buffer.from(JSON.stringify({ alg: "ES256", kid: config.keyId })).toString("base64url");
+  const claims = Buffer.from(JSON.stringify({ iss: config.teamId, iat: now })).toString("base64url");
+  const data = `${header}.${claims}`;
+  const signature = crypto
+    .sign("sha256", Buffer.from(data), { key: config.privateKey, dsaEncoding: "ieee-p1363" })
+    .toString("base64url");
+  const token = `${data}.${signature}`;
+  cachedProviderToken = { keyId: config.keyId, token, issuedAt: now };
+  return token;
+};
+
+/**
+ * Reuse one HTTP/2 connection per origin, as Apple recommends; reconnect after it closes.
+ */
+const getSession = (origin: string): http2.ClientHttp2Session => {
+  const existing = sessions.get(origin);
+  if (existing && !existing.closed && !existing.destroyed) return existing;
+
+  const session = http2.connect(origin);
+  const forget = () => {
+    if (sessions.get(origin) === session) sessions.delete(origin);
+  };
+  session.on("error", forget);
+  session.on("close", forget);
+  session.on("goaway", forget);
+  session.unref();
+  sessions.set(origin, session);
+  return session;
+};
+
+const postNotification = (config: ApnsConfig, notification: ApnsNotification): Promise<ApnsResponse> => {
+  return new Promise((resolve, reject) => {
+    const topic = notification.pushType === "voip" ? `${config.bundleId}.voip` : config.bundleId;
+    const req = getSession(config.origin).request({
+      ":method": "POST",
+      ":path": `/3/device/${notification.token}`,
+      authorization: `bearer ${getProviderToken(config)}`,
+      "apns-topic": topic,
+      "apns-push-type": notification.pushType,
+      "apns-priority": String(notification.priority),
+      ...(notification.expiration !== undefined ? { "apns-expiration": String(notification.expiration) } : {}),
+      "content-type": "application/json",
+    });
+
+    let status = 0;
+    let body = "";
+    req.setEncoding("utf8");
+    req.setTimeout(APNS_REQUEST_TIMEOUT_MS, () => {
+      req.close(http2.constants.NGHTTP2_CANCEL);
+      reject(new Error("APNs request timed out"));
+    });
+    req.on("response", (headers) => {
+      status = Number(headers[":status"]);
+    });
+    req.on("data", (chunk: string) => {
+      body += chunk;
+    });
+    req.on("end", () => {
+      let reason: string | undefined;
+      if (body) {
+        try {
+          reason = (JSON.parse(body) as { reason?: string }).reason;
+        } catch {
+          reason = undefined;
+        }
+      }
+      resolve({ status, reason });
+    });
+    req.on("error", reject);
+    req.end(JSON.stringify(notification.payload));
+  });
+};
+
+/**
+ * Send notifications over HTTP/2 (one request per device token, in parallel).
+ * Returns tokens APNs reported as gone (410) or bad (caller removes them from DB).
+ * Throws only when every request failed at the transport level.
+ */
+export const sendApns = async (
+  config: ApnsConfig,
+  notifications: ApnsNotification[]
+): Promise<{ invalidTokens: string[] }> => {
+  const invalidTokens: string[] = [];
+  if (notifications.length === 0) return { invalidTokens };
+
+  const results = await Promise.allSettled(notifications.map((n) => postNotification(config, n)));
+  const firstFailure = results.find((r): r is PromiseRejectedResult => r.status === "rejected");
+  if (firstFailure && results.every((r) => r.status === "rejected")) {
+    throw firstFailure.reason;
+  }
+
+  results.forEach((result, i) => {
+    if (result.status !== "fulfilled") return;
+    const { status, reason } = result.value;
+    const gone = status === 410 || (status === 400 && reason !== undefined && INVALID_TOKEN_REASONS.has(reason));
+    const token = notifications[i]?.token;
+    if (gone && token !== undefined) invalidTokens.push(token);
+  });
+  return { invalidTokens };
+};
+
+/**
+ * PushKit VoIP push for incoming call (app reports it to CallKit), each device with its own SIP credentials.
+ * Tokens must be PushKit tokens (platform "ios_voip"). Returns invalid tokens to remove from DB.
+ */
+export const sendApnsCallPushEach = async (
+  messages: { token: string; payload: FcmCallPayload }[]
+): Promise<{ invalidTokens: string[] }> => {
+  if (messages.length === 0) return { invalidTokens: [] };
+  return sendApns(
+    ensureApns(),
+    messages.map(({ token, payload }) => ({
+      token,
+      pushType: "voip" as const,
+      priority: 10 as const,
+      // A ring that arrives after the call ended is worse than none.
+      expiration: 0,
+      payload: { aps: {}, ...payload },
+    }))
+  );
+};
+
+/**
+ * Regular push for "call ended" to APNs device tokens (platform "ios").
+ * Missed calls show an alert; answered or declined elsewhere is silent so the app just dismisses its UI.
+ */
+export const sendApnsCallEnded = async (
+  tokens: string[],
+  payload: FcmCallEndedPayload
+): Promise<{ invalidTokens: string[] }> => {
+  if (tokens.length === 0) return { invalidTokens: [] };
+  const silent = payload.reason === "answered_elsewhere" || payload.reason === "rejected_elsewhere";
+  const aps = silent
+    ? { "content-available": 1 }
+    : { alert: { title: "Пропущенный вызов", body: payload.address || "Домофон" }, sound: "default" };
+  return sendApns(
+    ensureApns(),
+    tokens.map((token) => ({
+      token,
+      pushType: silent ? ("background" as const) : ("alert" as const),
+      priority: silent ? (5 as const) : (10 as const),
+      payload: { aps, ...payload },
+    }))
+  );
+};
+
+/**
+ * Regular alert push "new message from the door" to APNs device tokens (platform "ios").
+ */
+export const sendApnsVoiceMessage = async (
+  tokens: string[],
+  payload: FcmVoiceMessagePayload
+): Promise<{ invalidTokens: string[] }> => {
+  if (tokens.length === 0) return { invalidTokens: [] };
+  const aps = { alert: { title: "Сообщение от домофона", body: payload.address || "Домофон" }, sound: "default" };
+  return sendApns(
+    ensureApns(),
+    tokens.map((token) => ({ token, pushType: "alert" as const, priority: 10 as const, payload: { aps, ...payload } }))
+  );
+};
+
+/**
+ * Close open HTTP/2 connections to APNs (shutdown and tests).
+ */
+export const closeApns = () => {
+  for (const session of sessions.values()) {
+    session.close();
+  }
+  sessions.clear();
+};
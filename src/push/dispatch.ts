@@ -0,0 +1,83 @@
+import { sendApnsCallEnded, sendApnsCallPushEach, sendApnsVoiceMessage } from "./apns";
+import { sendFcmCallEnded, sendFcmPushEach, sendFcmVoiceMessage } from "./fcm";
+
+import type { FcmCallPayload, FcmCallEndedPayload, FcmVoiceMessagePayload, PushTarget } from "../types";
+
+/** APNs device token (regular notifications). */
+export const PUSH_PLATFORM_IOS = "ios";
+/** PushKit token (VoIP pushes for incoming calls only). */
+export const PUSH_PLATFORM_IOS_VOIP = "ios_voip";
+
+/** Result of a fan-out: invalid tokens to delete plus errors of providers that failed as a whole. */
+export type PushDispatchResult = {
+  invalidTokens: string[];
+  errors: unknown[];
+};
+
+/**
+ * Whether a token of this platform is rung on incoming call (iOS rings via PushKit only).
+ */
+export const canReceiveCallPush = (platform: string) => platform !== PUSH_PLATFORM_IOS;
+
+/**
+ * Whether a token of this platform gets "call ended" (a VoIP push must always start a CallKit call, so not PushKit).
+ */
+export const canReceiveCallEndedPush = (platform: string) => platform !== PUSH_PLATFORM_IOS_VOIP;
+
+const collect = (results: PromiseSettledResult<{ invalidTokens: string[] }>[]): PushDispatchResult => {
+  const out: PushDispatchResult = { invalidTokens: [], errors: [] };
+  for (const result of results) {
+    if (result.status === "fulfilled") {
+      out.invalidTokens.push(...result.value.invalidTokens);
+    } else {
+      out.errors.push(result.reason);
+    }
+  }
+  return out;
+};
+
+/**
+ * Send incoming call push to each device via FCM or APNs VoIP, by token platform.
+ * One provider failing does not stop the other; its error is returned in errors.
+ */
+export const sendCallPushEach = async (
+  messages: { target: PushTarget; payload: FcmCallPayload }[]
+): Promise<PushDispatchResult> => {
+  const toMessage = ({ target, payload }: { target: PushTarget; payload: FcmCallPayload }) => ({
+    token: target.pushToken,
+    payload,
+  });
+  const ringable = messages.filter((m) => canReceiveCallPush(m.target.platform));
+  const voip = ringable.filter((m) => m.target.platform === PUSH_PLATFORM_IOS_VOIP).map(toMessage);
+  const fcm = ringable.filter((m) => m.target.platform !== PUSH_PLATFORM_IOS_VOIP).map(toMessage);
+
+  return collect(await Promise.allSettled([sendFcmPushEach(fcm), sendApnsCallPushEach(voip)]));
+};
+
+/**
+ * Send "call ended" to targets via FCM or APNs, by token platform (PushKit tokens are skipped).
+ */
+export const sendCallEndedPush = async (
+  targets: PushTarget[],
+  payload: FcmCallEndedPayload
+): Promise<PushDispatchResult> => {
+  const notified = targets.filter((t) => canReceiveCallEndedPush(t.platform));
+  const apns = notified.filter((t) => t.platform === PUSH_PLATFORM_IOS).map((t) => t.pushToken);
+  const fcm = notified.filter((t) => t.platform !== PUSH_PLATFORM_IOS).map((t) => t.pushToken);
+
+  return collect(await Promise.allSettled([sendFcmCallEnded(fcm, payload), sendApnsCallEnded(apns, payload)]));
+};
+
+/**
+ * Send "new message from the door" to targets via FCM or APNs, by token platform (PushKit tokens are skipped).
+ */
+export const sendVoiceMessagePush = async (
+  targets: PushTarget[],
+  payload: FcmVoiceMessagePayload
+): Promise<PushDispatchResult> => {
+  const notified = targets.filter((t) => canReceiveCallEndedPush(t.platform));
+  const apns = notified.filter((t) => t.platform === PUSH_PLATFORM_IOS).map((t) => t.pushToken);
+  const fcm = notified.filter((t) => t.platform !== PUSH_PLATFORM_IOS).map((t) => t.pushToken);
+
+  return collect(await Promise.allSettled([sendFcmVoiceMessage(fcm, payload), sendApnsVoiceMessage(apns, payload)]));
+};
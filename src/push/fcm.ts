@@ -1,11 +1,24 @@
 import * as fs from "fs";
 import * as admin from "firebase-admin";
 import { env } from "../config/env";
+import { fcmMessages } from "../metrics";
 
-import type { FcmCallPayload, FcmCallEndedPayload } from "../types";
+import type { FcmCallPayload, FcmCallEndedPayload, FcmVoiceMessagePayload } from "../types";
 
 let initialized = false;
 
+/** Error codes meaning the registration token will never work again (remove from DB). */
+const INVALID_TOKEN_CODES = new Set([
+  "messaging/registration-token-not-registered",
+  "messaging/invalid-registration-token",
+  "messaging/invalid-argument",
+]);
+
+type SendResponse = { success: boolean; error?: { code?: string } };
+
+const isInvalidToken = (resp: SendResponse) =>
+  !resp.success && resp.error?.code !== undefined && INVALID_TOKEN_CODES.has(resp.error.code);
+
 /**
  * Lazily initialize Firebase Admin SDK for FCM sending.
  */
@@ -25,7 +38,27 @@ function ensureFirebase() {
 }
 
 /**
- * Send FCM data message to multiple tokens. Returns tokens for which send failed
+ * Load Firebase credentials if not loaded yet; throws when the service account is missing or invalid.
+ */
+export const loadFirebaseCredentials = async () => {
+  ensureFirebase();
+};
+
+/**
+ * Count per-token results of one FCM batch: a rejected token is "invalid", any other failure
+ * (quota, unavailable, internal) is "error" and keeps the token.
+ */
+const countResults = (responses: SendResponse[]) => {
+  const succeeded = responses.filter((resp) => resp.success).length;
+  const invalid = responses.filter(isInvalidToken).length;
+  const failed = responses.length - succeeded - invalid;
+  if (succeeded > 0) fcmMessages.inc({ result: "success" }, succeeded);
+  if (invalid > 0) fcmMessages.inc({ result: "invalid" }, invalid);
+  if (failed > 0) fcmMessages.inc({ result: "error" }, failed);
+};
+
+/**
+ * Send FCM data message to multiple tokens. Returns tokens FCM rejected as invalid
  * (caller removes them from DB). Does not throw on partial failure.
  */
 async function sendFcm(
@@ -42,8 +75,9 @@ async function sendFcm(
   };
   try {
     const batch = await admin.messaging().sendEachForMulticast(message);
+    countResults(batch.responses);
     batch.responses.forEach((resp, i) => {
-      if (!resp.success) {
+      if (isInvalidToken(resp)) {
         const token = tokens[i];
         if (token !== undefined) invalidTokens.push(token);
       }
@@ -51,19 +85,16 @@ async function sendFcm(
   } catch (err) {
     // Total failure (e.g. network): sendEachForMulticast threw before returning
     // per-token responses, so we have no invalidTokens to report — rethrow.
+    fcmMessages.inc({ result: "failure" }, tokens.length);
     throw err;
   }
   return { invalidTokens };
 }
 
 /**
- * Send data-only FCM messages to Android devices (incoming call).
- * Returns invalid tokens to remove from DB. Does not throw on partial failure.
+ * Build FCM data map for incoming call payload.
  */
-export const sendFcmPush = async (
-  tokens: string[],
-  payload: FcmCallPayload
-): Promise<{ invalidTokens: string[] }> => {
+const callPayloadData = (payload: FcmCallPayload): Record<string, string> => {
   const data: Record<string, string> = {
     type: payload.type,
     callId: payload.callId,
@@ -72,7 +103,43 @@ export const sendFcmPush = async (
   if (payload.address != null && payload.address !== "") {
     data.address = payload.address;
   }
-  return sendFcm(tokens, data);
+  if (payload.previewUrl) {
+    data.previewUrl = payload.previewUrl;
+  }
+  return data;
+};
+
+/**
+ * Send incoming call to several devices in one batch, each with its own payload
+ * (every device gets personal SIP credentials). Returns invalid tokens to remove from DB.
+ */
+export const sendFcmPushEach = async (
+  messages: { token: string; payload: FcmCallPayload }[]
+): Promise<{ invalidTokens: string[] }> => {
+  const invalidTokens: string[] = [];
+  if (messages.length === 0) return { invalidTokens };
+  ensureFirebase();
+  let batch;
+  try {
+    batch = await admin.messaging().sendEach(
+      messages.map(({ token, payload }) => ({
+        token,
+        data: callPayloadData(payload),
+        android: { priority: "high" as const },
+      }))
+    );
+  } catch (err) {
+    fcmMessages.inc({ result: "failure" }, messages.length);
+    throw err;
+  }
+  countResults(batch.responses);
+  batch.responses.forEach((resp, i) => {
+    if (isInvalidToken(resp)) {
+      const token = messages[i]?.token;
+      if (token !== undefined) invalidTokens.push(token);
+    }
+  });
+  return { invalidTokens };
 };
 
 /**
@@ -91,3 +158,13 @@ export const sendFcmCallEnded = async (
   };
   return sendFcm(tokens, data);
 };
+
+/**
+ * Send data-only FCM "new message from the door". Returns invalid tokens to remove from DB.
+ */
+export const sendFcmVoiceMessage = async (
+  tokens: string[],
+  payload: FcmVoiceMessagePayload
+): Promise<{ invalidTokens: string[] }> => {
+  return sendFcm(tokens, { type: payload.type, callId: payload.callId, address: payload.address, url: payload.url });
+};
@@ -0,0 +1,595 @@
+import { FastifyError, FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import { requireAdmin } from "../auth/admin";
+import { panelCallSettings } from "../call/panelSettings";
+import { VOICEMAIL_PROMPT_SEC } from "../call/voicemail";
+import {
+  addAddress,
+  addPanel,
+  clearUserBinding,
+  createDomophoneEndpoint,
+  deleteAddress,
+  deleteDomophoneEndpoint,
+  deletePanel,
+  findUserByPhone,
+  getAddressById,
+  getPanelById,
+  getPanelSettings,
+  isPanelEndpoint,
+  listAddresses,
+  listDomophoneEndpoints,
+  listPanelZones,
+  listPanels,
+  listUserBindings,
+  replacePanelZones,
+  setUserBinding,
+  updateAddress,
+  updateDomophoneEndpoint,
+  updatePanel,
+  updatePanelSettings,
+  updateUserSubscription,
+} from "../store/postgres";
+
+import type { ApartmentSource } from "../store/postgres";
+import type { PanelKind, PanelUnlockMethod } from "../types";
+
+const PG_UNIQUE_VIOLATION = "23505";
+const PG_FOREIGN_KEY_VIOLATION = "23503";
+const PG_INVALID_TEXT_REPRESENTATION = "22P02";
+
+/** Endpoint ids reserved for templates and temporary call endpoints. */
+const RESERVED_ENDPOINT_PREFIXES = ["inc_", "out_", "live_", "tpl_"];
+
+const idParamsSchema = {
+  type: "object",
+  required: ["id"],
+  properties: { id: { type: "integer", minimum: 1 } },
+} as const;
+
+const optionalText = { type: ["string", "null"], maxLength: 64 } as const;
+
+const sipIdPattern = "^[A-Za-z0-9_.-]{1,64}$";
+
+const addressProperties = {
+  street: { type: "string", minLength: 1, maxLength: 200 },
+  house: { type: "string", minLength: 1, maxLength: 32 },
+  building: optionalText,
+  letter: optionalText,
+  structure: optionalText,
+  conciergeEndpointId: { type: ["string", "null"], pattern: sipIdPattern },
+  callRecordingDays: { type: ["integer", "null"], minimum: 1, maximum: 3650 },
+} as const;
+
+const panelZoneSchema = {
+  type: "object",
+  required: ["addressId", "apartmentFrom", "apartmentTo"],
+  additionalProperties: false,
+  properties: {
+    addressId: { type: "integer", minimum: 1 },
+    apartmentFrom: { type: "integer", minimum: 1, maximum: 1000000 },
+    apartmentTo: { type: "integer", minimum: 1, maximum: 1000000 },
+    apartmentOffset: { type: "integer", minimum: -1000000, maximum: 1000000 },
+  },
+} as const;
+
+const panelProperties = {
+  endpointId: { type: ["string", "null"], pattern: sipIdPattern },
+  ip: { type: ["string", "null"], minLength: 1, maxLength: 64 },
+  ipRanges: { type: "array", maxItems: 32, uniqueItems: true, items: { type: "string", minLength: 1, maxLength: 64 } },
+  addressId: { type: "integer", minimum: 1 },
+  name: { type: ["string", "null"], minLength: 1, maxLength: 64 },
+  kind: { type: "string", enum: ["entrance", "gate"] },
+  unlockMethod: { type: ["string", "null"], enum: ["dtmf", "http", null] },
+  unlockDtmf: { type: ["string", "null"], pattern: "^[0-9A-D*#]{1,32}$" },
+  unlockUrl: { type: ["string", "null"], format: "uri", maxLength: 500 },
+  snapshotUrl: { type: ["string", "null"], format: "uri", maxLength: 500 },
+} as const;
+
+/** Asterisk sound names joined with & (no dialplan syntax). */
+const promptText = { type: ["string", "null"], pattern: "^[A-Za-z0-9_/-]+(&[A-Za-z0-9_/-]+)*$", maxLength: 200 } as const;
+
+const panelSettingsProperties = {
+  ringTimeoutSec: { type: ["integer", "null"], minimum: 5, maximum: 120 },
+  callTtlSec: { type: ["integer", "null"], minimum: 60, maximum: 7200 },
+  codecs: { type: ["string", "null"], pattern: "^[a-z0-9_]+(,[a-z0-9_]+)*$", maxLength: 100 },
+  apartmentSource: { type: ["string", "null"], enum: ["auto", "exten", "connected", null] },
+  apartmentOffset: { type: ["integer", "null"], minimum: -100000, maximum: 100000 },
+  apartmentMap: {
+    type: ["object", "null"],
+    maxProperties: 2000,
+    propertyNames: { pattern: "^\\d{1,10}$" },
+    additionalProperties: { type: "string", pattern: "^\\d{1,10}$" },
+  },
+  promptBusy: promptText,
+  promptNoanswer: promptText,
+  promptNotpaid: promptText,
+  voicemailMaxSec: { type: ["integer", "null"], minimum: 5, maximum: 120 },
+} as const;
+
+type AddressBody = {
+  street: string;
+  house: string;
+  building?: string | null;
+  letter?: string | null;
+  structure?: string | null;
+  conciergeEndpointId?: string | null;
+  callRecordingDays?: number | null;
+};
+
+type PanelBody = {
+  endpointId?: string | null;
+  ip?: string | null;
+  ipRanges?: string[];
+  addressId: number;
+  name?: string | null;
+  kind?: PanelKind;
+  unlockMethod?: PanelUnlockMethod | null;
+  unlockDtmf?: string | null;
+  unlockUrl?: string | null;
+  snapshotUrl?: string | null;
+};
+
+type PanelZoneBody = {
+  addressId: number;
+  apartmentFrom: number;
+  apartmentTo: number;
+  apartmentOffset?: number;
+};
+
+type PanelSettingsBody = {
+  ringTimeoutSec?: number | null;
+  callTtlSec?: number | null;
+  codecs?: string | null;
+  apartmentSource?: ApartmentSource | null;
+  apartmentOffset?: number | null;
+  apartmentMap?: Record<string, string> | null;
+  promptBusy?: string | null;
+  promptNoanswer?: string | null;
+  promptNotpaid?: string | null;
+  voicemailMaxSec?: number | null;
+};
+
+type DomophoneBody = {
+  id: string;
+  username: string;
+  password: string;
+};
+
+/**
+ * Unlock method must come with its parameter (digits for dtmf, URL for http).
+ */
+const validateUnlock = (panel: {
+  unlock_method: PanelUnlockMethod | null;
+  unlock_dtmf: string | null;
+  unlock_url: string | null;
+}): string | null => {
+  if (panel.unlock_method === "dtmf" && !panel.unlock_dtmf) return "unlockDtmf is required for dtmf unlock";
+  if (panel.unlock_method === "http" && !panel.unlock_url) return "unlockUrl is required for http unlock";
+  return null;
+};
+
+/**
+ * A panel must be identifiable: by endpoint id, by IP, or both. Endpoint id must not clash with temporary endpoints.
+ */
+const validatePanelIdentity = (panel: { endpoint_id: string | null; ip: string | null }): string | null => {
+  const endpointId = panel.endpoint_id;
+  if (!endpointId && !panel.ip) return "endpointId or ip is required";
+  if (endpointId && RESERVED_ENDPOINT_PREFIXES.some((prefix) => endpointId.startsWith(prefix))) {
+    return "Endpoint id uses a reserved prefix";
+  }
+  return null;
+};
+
+/**
+ * Register admin routes under /admin (require `Authorization: Bearer <ADMIN_API_TOKEN>`):
+ * - addresses:   GET/POST /admin/addresses, PATCH/DELETE /admin/addresses/:id
+ * - panels:      GET/POST /admin/panels, PATCH/DELETE /admin/panels/:id
+ * - panel settings: GET/PATCH /admin/panels/:id/settings (ring timeout, codecs, prompts, apartment numbering)
+ * - panel zones: GET/PUT /admin/panels/:id/zones (apartment ranges of entrances and gates, across addresses)
+ * - domophones:  GET/POST /admin/domophones, PATCH/DELETE /admin/domophones/:id (PJSIP realtime rows)
+ * - bindings:    GET /admin/users, PUT/DELETE /admin/users/:id/binding
+ * - subscription: POST /admin/users/:id/subscription
+ */
+export const registerAdminRoutes = async (app: FastifyInstance) => {
+  app.register(
+    async (admin) => {
+      admin.addHook("onRequest", requireAdmin);
+
+      // Map schema and Postgres constraint errors to 4xx; everything else stays 500.
+      admin.setErrorHandler((error: FastifyError & { code?: string }, request, reply) => {
+        if (error.validation) {
+          return reply.code(400).send({ error: error.message });
+        }
+        if (error.code === PG_UNIQUE_VIOLATION) {
+          return reply.code(409).send({ error: "Record already exists" });
+        }
+        if (error.code === PG_FOREIGN_KEY_VIOLATION) {
+          return reply.code(409).send({ error: "Record is still referenced by other records" });
+        }
+        if (error.code === PG_INVALID_TEXT_REPRESENTATION) {
+          return reply.code(400).send({ error: "Invalid value format" });
+        }
+        request.log.error({ err: error }, "Admin request failed");
+        return reply.code(500).send({ error: "Internal Server Error" });
+      });
+
+      // ---- Addresses ----
+
+      admin.get("/addresses", async () => listAddresses());
+
+      admin.post<{ Body: AddressBody }>(
+        "/addresses",
+        {
+          schema: {
+            body: {
+              type: "object",
+              required: ["street", "house"],
+              additionalProperties: false,
+              properties: addressProperties,
+            },
+          },
+        },
+        async (request, reply) => {
+          const { street, house, building, letter, structure, conciergeEndpointId, callRecordingDays } = request.body;
+          const address = await addAddress({
+            street,
+            house,
+            ...(building ? { building } : {}),
+            ...(letter ? { letter } : {}),
+            ...(structure ? { structure } : {}),
+            ...(conciergeEndpointId ? { conciergeEndpointId } : {}),
+            ...(callRecordingDays ? { callRecordingDays } : {}),
+          });
+          return reply.code(201).send(address);
+        }
+      );
+
+      admin.patch<{ Params: { id: number }; Body: Partial<AddressBody> }>(
+        "/addresses/:id",
+        {
+          schema: {
+            params: idParamsSchema,
+            body: { type: "object", minProperties: 1, additionalProperties: false, properties: addressProperties },
+          },
+        },
+        async (request, reply) => {
+          const address = await updateAddress(request.params.id, request.body);
+          if (!address) return reply.code(404).send({ error: "Address not found" });
+          return address;
+        }
+      );
+
+      admin.delete<{ Params: { id: number } }>(
+        "/addresses/:id",
+        { schema: { params: idParamsSchema } },
+        async (request, reply) => {
+          const deleted = await deleteAddress(request.params.id);
+          if (!deleted) return reply.code(404).send({ error: "Address not found" });
+          return reply.code(204).send();
+        }
+      );
+
+      // ---- Panels ----
+
+      admin.get("/panels", async () => listPanels());
+
+      admin.post<{ Body: PanelBody }>(
+        "/panels",
+        {
+          schema: {
+            body: {
+              type: "object",
+              required: ["addressId"],
+              additionalProperties: false,
+              properties: panelProperties,
+            },
+          },
+        },
+        async (request, reply) => {
+          const body = request.body;
+          const identityError = validatePanelIdentity({ endpoint_id: body.endpointId ?? null, ip: body.ip ?? null });
+          if (identityError) return reply.code(400).send({ error: identityError });
+          const unlockError = validateUnlock({
+            unlock_method: body.unlockMethod ?? null,
+            unlock_dtmf: body.unlockDtmf ?? null,
+            unlock_url: body.unlockUrl ?? null,
+          });
+          if (unlockError) return reply.code(400).send({ error: unlockError });
+          if (!(await getAddressById(body.addressId))) {
+            return reply.code(400).send({ error: "addressId does not exist" });
+          }
+          const panel = await addPanel(body);
+          return reply.code(201).send(panel);
+        }
+      );
+
+      admin.patch<{ Params: { id: number }; Body: Partial<PanelBody> }>(
+        "/panels/:id",
+        {
+          schema: {
+            params: idParamsSchema,
+            body: { type: "object", minProperties: 1, additionalProperties: false, properties: panelProperties },
+          },
+        },
+        async (request, reply) => {
+          const body = request.body;
+          const current = await getPanelById(request.params.id);
+          if (!current) return reply.code(404).send({ error: "Panel not found" });
+          const identityError = validatePanelIdentity({
+            endpoint_id: body.endpointId !== undefined ? body.endpointId : current.endpoint_id,
+            ip: body.ip !== undefined ? body.ip : current.ip,
+          });
+          if (identityError) return reply.code(400).send({ error: identityError });
+          const unlockError = validateUnlock({
+            unlock_method: body.unlockMethod !== undefined ? body.unlockMethod : current.unlock_method,
+            unlock_dtmf: body.unlockDtmf !== undefined ? body.unlockDtmf : current.unlock_dtmf,
+            unlock_url: body.unlockUrl !== undefined ? body.unlockUrl : current.unlock_url,
+          });
+          if (unlockError) return reply.code(400).send({ error: unlockError });
+          if (body.addressId !== undefined && !(await getAddressById(body.addressId))) {
+            return reply.code(400).send({ error: "addressId does not exist" });
+          }
+          const panel = await updatePanel(request.params.id, body);
+          if (!panel) return reply.code(404).send({ error: "Panel not found" });
+          return panel;
+        }
+      );
+
+      admin.delete<{ Params: { id: number } }>(
+        "/panels/:id",
+        { schema: { params: idParamsSchema } },
+        async (request, reply) => {
+          const deleted = await deletePanel(request.params.id);
+          if (!deleted) return reply.code(404).send({ error: "Panel not found" });
+          return reply.code(204).send();
+        }
+      );
+
+      admin.get<{ Params: { id: number } }>(
+        "/panels/:id/settings",
+        { schema: { params: idParamsSchema } },
+        async (request, reply) => {
+          if (!(await getPanelById(request.params.id))) return reply.code(404).send({ error: "Panel not found" });
+          return getPanelSettings(request.params.id);
+        }
+      );
+
+      admin.patch<{ Params: { id: number }; Body: PanelSettingsBody }>(
+        "/panels/:id/settings",
+        {
+          schema: {
+            params: idParamsSchema,
+            body: { type: "object", minProperties: 1, additionalProperties: false, properties: panelSettingsProperties },
+          },
+        },
+        async (request, reply) => {
+          const body = request.body;
+          if (!(await getPanelById(request.params.id))) return reply.code(404).send({ error: "Panel not found" });
+          const current = panelCallSettings(await getPanelSettings(request.params.id));
+          const ringTimeoutSec = body.ringTimeoutSec !== undefined ? body.ringTimeoutSec ?? env.ringTimeoutSec : current.ringTimeoutSec;
+          const callTtlSec = body.callTtlSec !== undefined ? body.callTtlSec ?? env.callTokenTtlSec : current.callTtlSec;
+          if (ringTimeoutSec >= callTtlSec) {
+            return reply.code(400).send({ error: "ringTimeoutSec must be shorter than callTtlSec" });
+          }
+          const voicemailMaxSec = body.voicemailMaxSec !== undefined ? body.voicemailMaxSec : current.voicemailMaxSec;
+          if (voicemailMaxSec !== null && ringTimeoutSec + voicemailMaxSec + VOICEMAIL_PROMPT_SEC >= callTtlSec) {
+            return reply.code(400).send({ error: "ringTimeoutSec plus voicemailMaxSec must fit into callTtlSec" });
+          }
+          return updatePanelSettings(request.params.id, body);
+        }
+      );
+
+      admin.get<{ Params: { id: number } }>(
+        "/panels/:id/zones",
+        { schema: { params: idParamsSchema } },
+        async (request, reply) => {
+          if (!(await getPanelById(request.params.id))) return reply.code(404).send({ error: "Panel not found" });
+          return listPanelZones(request.params.id);
+        }
+      );
+
+      admin.put<{ Params: { id: number }; Body: PanelZoneBody[] }>(
+        "/panels/:id/zones",
+        {
+          schema: {
+            params: idParamsSchema,
+            body: { type: "array", maxItems: 200, items: panelZoneSchema },
+          },
+        },
+        async (request, reply) => {
+          const zones = request.body;
+          if (!(await getPanelById(request.params.id))) return reply.code(404).send({ error: "Panel not found" });
+          if (zones.some((zone) => zone.apartmentTo < zone.apartmentFrom)) {
+            return reply.code(400).send({ error: "apartmentTo must not be less than apartmentFrom" });
+          }
+          for (const addressId of new Set(zones.map((zone) => zone.addressId))) {
+            if (!(await getAddressById(addressId))) {
+              return reply.code(400).send({ error: `addressId ${addressId} does not exist` });
+            }
+          }
+          return replacePanelZones(request.params.id, zones);
+        }
+      );
+
+      // ---- Domophone SIP endpoints ----
+
+      admin.get("/domophones", async () => listDomophoneEndpoints());
+
+      admin.post<{ Body: DomophoneBody }>(
+        "/domophones",
+        {
+          schema: {
+            body: {
+              type: "object",
+              required: ["id", "username", "password"],
+              additionalProperties: false,
+              properties: {
+                id: { type: "string", pattern: sipIdPattern },
+                username: { type: "string", pattern: sipIdPattern },
+                password: { type: "string", minLength: 8, maxLength: 64 },
+              },
+            },
+          },
+        },
+        async (request, reply) => {
+          const { id } = request.body;
+          if (RESERVED_ENDPOINT_PREFIXES.some((prefix) => id.startsWith(prefix))) {
+            return reply.code(400).send({ error: "Endpoint id uses a reserved prefix" });
+          }
+          const endpoint = await createDomophoneEndpoint(request.body);
+          return reply.code(201).send(endpoint);
+        }
+      );
+
+      admin.patch<{ Params: { id: string }; Body: Partial<Omit<DomophoneBody, "id">> }>(
+        "/domophones/:id",
+        {
+          schema: {
+            params: {
+              type: "object",
+              required: ["id"],
+              properties: { id: { type: "string", pattern: sipIdPattern } },
+            },
+            body: {
+              type: "object",
+              minProperties: 1,
+              additionalProperties: false,
+              properties: {
+                username: { type: "string", pattern: sipIdPattern },
+                password: { type: "string", minLength: 8, maxLength: 64 },
+              },
+            },
+          },
+        },
+        async (request, reply) => {
+          const endpoint = await updateDomophoneEndpoint(request.params.id, request.body);
+          if (!endpoint) return reply.code(404).send({ error: "Domophone endpoint not found" });
+          return endpoint;
+        }
+      );
+
+      admin.delete<{ Params: { id: string } }>(
+        "/domophones/:id",
+        {
+          schema: {
+            params: {
+              type: "object",
+              required: ["id"],
+              properties: { id: { type: "string", pattern: sipIdPattern } },
+            },
+          },
+        },
+        async (request, reply) => {
+          if (await isPanelEndpoint(request.params.id)) {
+            return reply.code(409).send({ error: "Record is still referenced by other records" });
+          }
+          const deleted = await deleteDomophoneEndpoint(request.params.id);
+          if (!deleted) return reply.code(404).send({ error: "Domophone endpoint not found" });
+          return reply.code(204).send();
+        }
+      );
+
+      // ---- User bindings (user -> address + apartment) ----
+
+      /**
+       * List bound users, or look up one user by phone (7XXXXXXXXXX) to get its id for binding.
+       */
+      admin.get<{ Querystring: { addressId?: number; phone?: string } }>(
+        "/users",
+        {
+          schema: {
+            querystring: {
+              type: "object",
+              additionalProperties: false,
+              properties: {
+                addressId: { type: "integer", minimum: 1 },
+                phone: { type: "string", pattern: "^7\\d{10}$" },
+              },
+            },
+          },
+        },
+        async (request, reply) => {
+          if (request.query.phone) {
+            const user = await findUserByPhone(request.query.phone);
+            if (!user) return reply.code(404).send({ error: "User not found" });
+            return [user];
+          }
+          return listUserBindings(request.query.addressId);
+        }
+      );
+
+      admin.put<{ Params: { id: number }; Body: { addressId: number; apartment: string } }>(
+        "/users/:id/binding",
+        {
+          schema: {
+            params: idParamsSchema,
+            body: {
+              type: "object",
+              required: ["addressId", "apartment"],
+              additionalProperties: false,
+              properties: {
+                addressId: { type: "integer", minimum: 1 },
+                apartment: { type: "string", pattern: "^\\d{1,6}$" },
+              },
+            },
+          },
+        },
+        async (request, reply) => {
+          const { addressId, apartment } = request.body;
+          if (!(await getAddressById(addressId))) {
+            return reply.code(400).send({ error: "addressId does not exist" });
+          }
+          const user = await setUserBinding(request.params.id, addressId, apartment);
+          if (!user) return reply.code(404).send({ error: "User not found" });
+          return user;
+        }
+      );
+
+      /**
+       * Extend or set resident subscription. extendDays counts from today for expired
+       * subscriptions and from paid_until otherwise.
+       */
+      admin.post<{
+        Params: { id: number };
+        Body: { extendDays?: number; paidUntil?: string | null; isActive?: boolean };
+      }>(
+        "/users/:id/subscription",
+        {
+          schema: {
+            params: idParamsSchema,
+            body: {
+              type: "object",
+              minProperties: 1,
+              additionalProperties: false,
+              properties: {
+                extendDays: { type: "integer", minimum: 1, maximum: 3660 },
+                paidUntil: { type: ["string", "null"], format: "date" },
+                isActive: { type: "boolean" },
+              },
+            },
+          },
+        },
+        async (request, reply) => {
+          const { extendDays, paidUntil } = request.body;
+          if (extendDays !== undefined && paidUntil !== undefined) {
+            return reply.code(400).send({ error: "Use either extendDays or paidUntil" });
+          }
+          const subscription = await updateUserSubscription(request.params.id, request.body);
+          if (!subscription) return reply.code(404).send({ error: "User not found" });
+          return subscription;
+        }
+      );
+
+      admin.delete<{ Params: { id: number } }>(
+        "/users/:id/binding",
+        { schema: { params: idParamsSchema } },
+        async (request, reply) => {
+          const cleared = await clearUserBinding(request.params.id);
+          if (!cleared) return reply.code(404).send({ error: "User not found" });
+          return reply.code(204).send();
+        }
+      );
+    },
+    { prefix: "/admin" }
+  );
+};
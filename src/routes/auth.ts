@@ -1,6 +1,8 @@
 import crypto from "crypto";
 import { FastifyInstance } from "fastify";
+import { issueSession, refreshSession, requireAuth, revokeSession } from "../auth/session";
 import { getOrCreateUser } from "../store/postgres";
+import { authEvents } from "../metrics";
 import {
   blockOtpRequestByIp,
   blockOtpVerifyByIp,
@@ -47,6 +49,8 @@ const MSG_PIN_INVALID = "Неверный код";
 const MSG_RATE_LIMITED = "Превышен лимит запросов";
 const MSG_REQUEST_ACCEPTED = "Запрос на звонок принят";
 const MSG_REQUEST_QUEUED = "Запрос в очереди";
+const MSG_SESSION_INVALID = "Сессия недействительна";
+const MSG_SESSION_REFRESHED = "Сессия обновлена";
 
 
 type LogLevel = "info" | "warn";
@@ -67,6 +71,7 @@ const logAuthLine = (
 ) => {
   const line = `[${tag}] ${message} ip=${ip} phone=${phone} route=${route}`;
   app.log[level](line);
+  authEvents.inc({ tag });
 };
 
 /**
@@ -80,10 +85,22 @@ const normalizePhone = (raw: string): string | null => {
   return null;
 };
 
+/**
+ * Device id sent by the app (stable per install). Falls back to a random id so that
+ * old clients still get a session, just not one they can replace on re-login.
+ */
+const normalizeDeviceId = (raw: string | undefined): string => {
+  const value = raw?.trim();
+  if (value && /^[A-Za-z0-9._:-]{1,128}$/.test(value)) return value;
+  return crypto.randomUUID();
+};
+
 /**
  * Register phone authorization routes:
  * - POST /auth/request-code
  * - POST /auth/verify-code
+ * - POST /auth/refresh
+ * - POST /auth/logout
  */
 export const registerAuthRoutes = async (app: FastifyInstance) => {
   const applyBlockByIp = async (ip: string, ttlSec: number) => {
@@ -238,9 +255,10 @@ export const registerAuthRoutes = async (app: FastifyInstance) => {
 
   /**
    * Validate phone + code pair against Redis and create user row on success.
+   * On success issues an access/refresh token pair bound to the device.
    * Expired OTP attempts count toward the same verify rate limits as wrong PIN.
    */
-  app.post<{ Body: { phone?: string; code?: string } }>("/auth/verify-code", async (request, reply) => {
+  app.post<{ Body: { phone?: string; code?: string; deviceId?: string } }>("/auth/verify-code", async (request, reply) => {
     const route = "/auth/verify-code";
     const ip = request.ip;
     const raw = request.body?.phone?.trim();
@@ -324,6 +342,8 @@ export const registerAuthRoutes = async (app: FastifyInstance) => {
     }
 
     const user = await getOrCreateUser(phone);
+    const deviceId = normalizeDeviceId(request.body?.deviceId);
+    const session = await issueSession(user.id, deviceId);
     await deleteOtp(phone);
     await Promise.all([resetOtpRateLimitsByPhone(phone), resetOtpRateLimitsByIp(ip)]);
     logAuthLine(app, "info", "AUTH_VERIFY_SUCCESS", MSG_PIN_CONFIRMED, ip, phone, route);
@@ -331,6 +351,35 @@ export const registerAuthRoutes = async (app: FastifyInstance) => {
       success: true,
       message: MSG_PIN_CONFIRMED,
       user,
+      deviceId,
+      ...session,
+    });
+  });
+
+  /**
+   * Exchange refresh token for a new access/refresh pair.
+   * Refresh tokens are single-use: presenting an old one revokes the session.
+   */
+  app.post<{ Body: { refreshToken?: string } }>("/auth/refresh", async (request, reply) => {
+    const route = "/auth/refresh";
+    const refreshToken = request.body?.refreshToken?.trim();
+    const session = refreshToken ? await refreshSession(refreshToken) : null;
+    if (!session) {
+      logAuthLine(app, "warn", "AUTH_REFRESH_INVALID", MSG_SESSION_INVALID, request.ip, "-", route);
+      return reply.code(401).send({ success: false, message: MSG_SESSION_INVALID });
+    }
+    return reply.code(200).send({
+      success: true,
+      message: MSG_SESSION_REFRESHED,
+      ...session,
     });
   });
+
+  /**
+   * Revoke current device session. Access and refresh tokens stop working immediately.
+   */
+  app.post("/auth/logout", { preHandler: requireAuth }, async (request, reply) => {
+    await revokeSession(request.auth!.sessionId);
+    return reply.code(204).send();
+  });
 };
@@ -1,25 +1,54 @@
-import { FastifyInstance } from "fastify";
+import { FastifyInstance, FastifyReply, FastifyRequest } from "fastify";
 import crypto from "crypto";
 import { env } from "../config/env";
+import { hasBearerToken } from "../auth/admin";
+import { requireAuth } from "../auth/session";
+import { setCallData, setEndpointSession, getCallData } from "../store/redis";
 import {
-  setCallData,
-  setEndpointSession,
-  getCallData,
-  clearActiveIncomingFromPanel,
-  deletePendingOriginate,
-} from "../store/redis";
-import { createTempSipEndpoint } from "../store/postgres";
-import { hangupChannel, deleteBridge, continueInDialplan, getBridge } from "../ari/client";
+  createTempSipEndpoint,
+  getCallHistory,
+  getCallRecordingKey,
+  getCallVoicemailKey,
+  getPanelById,
+  markCallDoorOpened,
+} from "../store/postgres";
+import { openDoor } from "../door/unlock";
+import { getObjectUrl, isStoredObjectKey, openObject } from "../storage/objects";
+import { transitionCall } from "../call/stateMachine";
+import { isCallActive, isCallAnswered } from "../call/status";
 
 import type { CallData, CredentialsPayload } from "../types";
 
+const HISTORY_DEFAULT_LIMIT = 20;
+const HISTORY_MAX_LIMIT = 100;
+
+/**
+ * Whether the resident was rung by this incoming call (any family member may act on it).
+ */
+const isCallResident = (callData: CallData, userId: number): boolean => {
+  return callData.userIds?.includes(userId) ?? false;
+};
+
 /**
- * Register call routes:
+ * preHandler for routes admins may use too: ADMIN_API_TOKEN passes with request.auth unset,
+ * anything else must be a signed-in resident.
+ */
+const requireAuthOrAdmin = async (request: FastifyRequest, reply: FastifyReply) => {
+  if (env.adminApiToken && hasBearerToken(request, env.adminApiToken)) return;
+  return requireAuth(request, reply);
+};
+
+/**
+ * Register call routes (all require a signed-in resident):
  * - issue temporary SIP credentials for outgoing client calls (`/calls/credentials`)
  * - terminate active incoming call flow and cleanup bridge/channels (`/calls/end`)
+ * - paginated call history of the signed-in resident (`/calls/history`)
+ * - open the calling panel's door while the call is active (`/calls/:callId/open-door`)
+ * - download the visitor's voice message of an unanswered call (`/calls/:callId/voicemail`)
+ * - play the recording of an answered call, also with the admin token (`/calls/:callId/recording`)
  */
 export const registerCallRoutes = async (app: FastifyInstance) => {
-  app.post("/calls/credentials", async () => {
+  app.post("/calls/credentials", { preHandler: requireAuth }, async (request) => {
     const callId = crypto.randomUUID();
     const endpointId = `out_${callId}`;
     const sipUsername = endpointId;
@@ -44,7 +73,7 @@ export const registerCallRoutes = async (app: FastifyInstance) => {
       },
     };
 
-    await setCallData(callId, payload, env.callTokenTtlSec);
+    await setCallData(callId, { ...payload, userId: request.auth!.userId }, env.callTokenTtlSec);
     await setEndpointSession(endpointId, { type: "outgoing" }, env.callTokenTtlSec);
 
     return payload.credentials.sipCredentials;
@@ -53,59 +82,136 @@ export const registerCallRoutes = async (app: FastifyInstance) => {
   /**
    * End an incoming call (reject / decline from device).
    * Called by the app when user taps reject or when call is declined.
-   * Hangs up the domophone channel and deletes the bridge.
+   * A ringing call becomes 'rejected' (panel hears busy, the family's other devices get rejected_elsewhere),
+   * an answered one 'ended'.
+   * Only residents of the called apartment may end it.
    */
-  app.post<{ Body: { callId: string } }>("/calls/end", async (request, reply) => {
+  app.post<{ Body: { callId: string } }>("/calls/end", { preHandler: requireAuth }, async (request, reply) => {
     const callId = request.body?.callId?.trim();
     if (!callId) {
       return reply.code(400).send({ error: "callId required" });
     }
     const callData = await getCallData<CallData>(callId);
-    if (!callData?.channelId) {
+    if (!callData?.channelId || !isCallResident(callData, request.auth!.userId)) {
+      return reply.code(404).send({ error: "Call not found or already ended" });
+    }
+    const { userId, deviceId } = request.auth!;
+    const ended = await transitionCall(
+      app,
+      callId,
+      isCallAnswered(callData.status) ? { to: "ended" } : { to: "rejected", userId, deviceId }
+    );
+    if (!ended) {
       return reply.code(404).send({ error: "Call not found or already ended" });
     }
-    const channelId = callData.channelId;
-    await setCallData(callId, { ...callData, status: "rejected" }, env.callTokenTtlSec);
-    if (callData.endpointId) {
+    return reply.code(204).send();
+  });
+
+  /**
+   * Call history of the signed-in resident, newest first.
+   * Query: limit (1..100, default 20), offset (default 0).
+   * previewUrl is a short-lived signed link to the panel snapshot (null when none was captured);
+   * hasVoicemail / hasRecording tell whether GET /calls/:callId/voicemail / recording have a file.
+   */
+  app.get<{ Querystring: { limit?: string; offset?: string } }>(
+    "/calls/history",
+    { preHandler: requireAuth },
+    async (request) => {
+      const limitRaw = Number(request.query.limit ?? HISTORY_DEFAULT_LIMIT);
+      const offsetRaw = Number(request.query.offset ?? 0);
+      if (!Number.isInteger(limitRaw) || limitRaw < 1 || !Number.isInteger(offsetRaw) || offsetRaw < 0) {
+        return app.httpErrors.badRequest("Invalid limit or offset");
+      }
+      const limit = Math.min(limitRaw, HISTORY_MAX_LIMIT);
+      const rows = await getCallHistory(request.auth!.userId, limit, offsetRaw);
+      const items = rows.map(({ previewKey, ...item }) => ({
+        ...item,
+        previewUrl: previewKey && isStoredObjectKey(previewKey) ? getObjectUrl(previewKey) : null,
+      }));
+      return {
+        items,
+        nextOffset: rows.length === limit ? offsetRaw + limit : null,
+      };
+    }
+  );
+
+  /**
+   * Open the door of the panel that is calling (ringing or answered call).
+   * Uses the panel's unlock method: DTMF into the domophone channel or HTTP relay.
+   */
+  app.post<{ Params: { callId: string } }>(
+    "/calls/:callId/open-door",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const callId = request.params.callId.trim();
+      const callData = await getCallData<CallData>(callId);
+      if (!callData?.channelId) {
+        return reply.code(404).send({ error: "Call not found or already ended" });
+      }
+      if (!isCallResident(callData, request.auth!.userId)) {
+        return reply.code(403).send({ error: "Not a resident of the called apartment" });
+      }
+      if (!isCallActive(callData.status)) {
+        return reply.code(404).send({ error: "Call not found or already ended" });
+      }
+      const panel = callData.panelId ? await getPanelById(callData.panelId) : null;
+      if (!panel) {
+        return reply.code(409).send({ error: "Panel is not configured for this call" });
+      }
+
+      let result;
       try {
-        await deletePendingOriginate(callData.endpointId);
-        request.log.info(
-          { callId, endpointId: callData.endpointId },
-          "calls/end: cleared pending originate"
-        );
+        result = await openDoor(panel, callData.channelId);
       } catch (err) {
-        request.log.warn(
-          { err, callId, endpointId: callData.endpointId },
-          "calls/end: failed to clear pending originate"
-        );
+        request.log.warn({ err, callId, panelId: panel.id }, "open-door: unlock request failed");
+        return reply.code(502).send({ error: "Failed to open door" });
       }
-    }
-    try {
-      await continueInDialplan(channelId, "from-domophone", "busy", 1);
-    } catch (err) {
-      request.log.warn({ err, channelId, callId }, "continueInDialplan failed (channel may already be down)");
-    }
-    if (callData.bridgeId) {
+      if (result !== "opened") {
+        return reply.code(409).send({ error: "Door unlock is not configured for this panel" });
+      }
+
       try {
-        const bridgeInfo = await getBridge(callData.bridgeId);
-        if (bridgeInfo?.channels?.length) {
-          for (const chId of bridgeInfo.channels) {
-            if (chId === channelId) continue;
-            try {
-              await hangupChannel(chId);
-            } catch (err) {
-              request.log.debug({ err, chId }, "hangupChannel failed (channel may already be down)");
-            }
-          }
-        }
-        await deleteBridge(callData.bridgeId);
+        await markCallDoorOpened(callId);
       } catch (err) {
-        request.log.debug({ err, bridgeId: callData.bridgeId }, "deleteBridge failed (bridge may already be gone)");
+        request.log.warn({ err, callId }, "open-door: failed to write door_opened to call history");
+      }
+      request.log.info({ callId, panelId: panel.id, method: panel.unlock_method }, "Door opened from app");
+      return reply.code(204).send();
+    }
+  );
+
+  /**
+   * Voice message the visitor left when nobody answered (link from the VOICE_MESSAGE push and history).
+   * Redirects to a short-lived signed link of the WAV file; only residents rung by the call get it.
+   */
+  app.get<{ Params: { callId: string } }>(
+    "/calls/:callId/voicemail",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const key = await getCallVoicemailKey(request.params.callId.trim(), request.auth!.userId);
+      if (!key || !isStoredObjectKey(key)) {
+        return reply.code(404).send({ error: "Voice message not found" });
       }
+      return reply.redirect(getObjectUrl(key));
     }
-    if (callData.domophoneEndpointId) {
-      await clearActiveIncomingFromPanel(callData.domophoneEndpointId);
+  );
+
+  /**
+   * Conversation recording of a call at an address that records calls, streamed as WAV (until its retention ends).
+   * Residents get the calls they were rung by; the admin token gets any call.
+   */
+  app.get<{ Params: { callId: string } }>(
+    "/calls/:callId/recording",
+    { preHandler: requireAuthOrAdmin },
+    async (request, reply) => {
+      const callId = request.params.callId.trim();
+      const key = await getCallRecordingKey(callId, request.auth?.userId ?? null);
+      const stream = key ? await openObject(key) : null;
+      if (!stream) {
+        return reply.code(404).send({ error: "Recording not found" });
+      }
+      request.log.info({ callId, userId: request.auth?.userId ?? null }, "Call recording played");
+      return reply.type("audio/wav").header("cache-control", "private, no-store").send(stream);
     }
-    return reply.code(204).send();
-  });
+  );
 };
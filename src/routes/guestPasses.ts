@@ -0,0 +1,166 @@
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import { requireAuth } from "../auth/session";
+import { panelServesResident } from "../call/panelZones";
+import { guestPassToken, guestPassUrl, parseGuestPassToken } from "../door/guestPass";
+import { openDoor } from "../door/unlock";
+import {
+  claimGuestPassUse,
+  createGuestPass,
+  getPanelById,
+  getUserBinding,
+  isUserSubscribed,
+  listGuestPasses,
+  listPanelZones,
+  recordGuestPassUse,
+  revokeGuestPass,
+} from "../store/postgres";
+
+import type { GuestPassRecord, PanelRecord } from "../store/postgres";
+
+/** Longest validity window of a pass. */
+const MAX_PASS_WINDOW_MS = 30 * 24 * 3600 * 1000;
+
+type CreateGuestPassBody = {
+  panelId: number;
+  label?: string | null;
+  validFrom?: string;
+  validUntil: string;
+  maxUses: number;
+};
+
+const withLink = (pass: GuestPassRecord) => {
+  const token = guestPassToken(pass.id);
+  return { ...pass, token, url: guestPassUrl(token) };
+};
+
+/**
+ * Whether the pass creator may still open this panel: still lives at an apartment it serves and,
+ * unless unpaid residents are let through (UNPAID_CALL_ACTION=allow), still subscribed.
+ */
+const creatorStillServed = async (userId: number, panel: PanelRecord): Promise<boolean> => {
+  const [binding, zones, subscribed] = await Promise.all([
+    getUserBinding(userId),
+    listPanelZones(panel.id),
+    isUserSubscribed(userId),
+  ]);
+  if (!binding || !panelServesResident(panel, zones, binding)) return false;
+  return subscribed || env.unpaidCallAction === "allow";
+};
+
+/**
+ * Register guest pass routes:
+ * - resident creates, lists and revokes passes for the panels they may open (`/guest-passes`)
+ * - guest opens the door with the pass link, no sign-in (`/guest-passes/:token/open`)
+ */
+export const registerGuestPassRoutes = async (app: FastifyInstance) => {
+  /**
+   * Pass for one of the resident's panels (HTTP relay unlock only: there is no call channel for DTMF).
+   * The app shows `url` as a link and a QR code.
+   */
+  app.post<{ Body: CreateGuestPassBody }>(
+    "/guest-passes",
+    {
+      preHandler: requireAuth,
+      schema: {
+        body: {
+          type: "object",
+          required: ["panelId", "validUntil", "maxUses"],
+          additionalProperties: false,
+          properties: {
+            panelId: { type: "integer", minimum: 1 },
+            label: { type: ["string", "null"], maxLength: 100 },
+            validFrom: { type: "string", format: "date-time" },
+            validUntil: { type: "string", format: "date-time" },
+            maxUses: { type: "integer", minimum: 1, maximum: 100 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const userId = request.auth!.userId;
+      const { panelId, label, maxUses } = request.body;
+      const validFrom = request.body.validFrom ?? new Date().toISOString();
+      const { validUntil } = request.body;
+      const windowMs = Date.parse(validUntil) - Date.parse(validFrom);
+      if (!(windowMs > 0)) {
+        return reply.code(400).send({ error: "validUntil must be after validFrom" });
+      }
+      if (windowMs > MAX_PASS_WINDOW_MS || Date.parse(validUntil) <= Date.now()) {
+        return reply.code(400).send({ error: "Pass must end in the future and last at most 30 days" });
+      }
+
+      const [panel, binding, zones] = await Promise.all([
+        getPanelById(panelId),
+        getUserBinding(userId),
+        listPanelZones(panelId),
+      ]);
+      if (!panel || !binding || !panelServesResident(panel, zones, binding)) {
+        return reply.code(404).send({ error: "Panel not found" });
+      }
+      if (panel.unlock_method !== "http" || !panel.unlock_url) {
+        return reply.code(409).send({ error: "Door of this panel cannot be opened without a call" });
+      }
+
+      const pass = await createGuestPass({ userId, panelId, label: label ?? null, validFrom, validUntil, maxUses });
+      request.log.info({ userId, panelId, passId: pass.id, maxUses }, "Guest pass created");
+      return reply.code(201).send(withLink(pass));
+    }
+  );
+
+  app.get("/guest-passes", { preHandler: requireAuth }, async (request) => {
+    const passes = await listGuestPasses(request.auth!.userId);
+    return { items: passes.map(withLink) };
+  });
+
+  app.delete<{ Params: { id: string } }>(
+    "/guest-passes/:id",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const passId = Number(request.params.id);
+      if (!Number.isInteger(passId) || passId <= 0) {
+        return reply.code(400).send({ error: "Invalid pass id" });
+      }
+      if (!(await revokeGuestPass(request.auth!.userId, passId))) {
+        return reply.code(404).send({ error: "Guest pass not found" });
+      }
+      return reply.code(204).send();
+    }
+  );
+
+  /**
+   * Open the door with a pass. Public: the signed token is the credential. Each attempt with a valid pass
+   * is recorded; an attempt the panel did not confirm does not use the pass up. A pass stops working once
+   * its creator moved out of the panel's apartments or their subscription ended.
+   */
+  app.post<{ Params: { token: string } }>("/guest-passes/:token/open", async (request, reply) => {
+    const passId = parseGuestPassToken(request.params.token);
+    if (passId === null) {
+      return reply.code(404).send({ error: "Guest pass not found" });
+    }
+    const pass = await claimGuestPassUse(passId);
+    if (!pass) {
+      return reply.code(410).send({ error: "Guest pass expired, revoked or used up" });
+    }
+    const panel = await getPanelById(pass.panel_id);
+    if (!panel || !(await creatorStillServed(pass.user_id, panel))) {
+      await recordGuestPassUse(passId, request.ip, "failed");
+      request.log.info({ passId, panelId: pass.panel_id, userId: pass.user_id }, "Guest pass refused: creator no longer served by panel");
+      return reply.code(410).send({ error: "Guest pass expired, revoked or used up" });
+    }
+
+    let opened = false;
+    try {
+      opened = (await openDoor(panel, null)) === "opened";
+    } catch (err) {
+      request.log.warn({ err, passId, panelId: pass.panel_id }, "guest pass: unlock request failed");
+    }
+    await recordGuestPassUse(passId, request.ip, opened ? "opened" : "failed");
+    if (!opened) {
+      return reply.code(502).send({ error: "Failed to open door" });
+    }
+
+    request.log.info({ passId, panelId: pass.panel_id, uses: pass.uses }, "Door opened with guest pass");
+    return reply.code(204).send();
+  });
+};
@@ -0,0 +1,24 @@
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import { checkReadiness } from "../health/checks";
+
+/**
+ * Register health routes (no auth):
+ * - liveness: the process serves HTTP (`/health/live`; `/health` is kept for existing checks)
+ * - readiness: Postgres, Redis, ARI (events + REST), multifon registration and Firebase credentials,
+ *   each with status and latency; 503 when any of them is down (`/health/ready`)
+ */
+export const registerHealthRoutes = async (app: FastifyInstance) => {
+  const live = async () => ({ ok: true, service: "intercom-backend", config: { baseUrl: env.serverDomain } });
+  app.get("/health", live);
+  app.get("/health/live", live);
+
+  app.get("/health/ready", async (request, reply) => {
+    const readiness = await checkReadiness();
+    if (!readiness.ok) {
+      const down = Object.keys(readiness.components).filter((name) => !readiness.components[name]?.ok);
+      request.log.warn({ down }, "Readiness check failed");
+    }
+    return reply.code(readiness.ok ? 200 : 503).send(readiness);
+  });
+};
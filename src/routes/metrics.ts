@@ -0,0 +1,17 @@
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import { hasBearerToken } from "../auth/admin";
+import { METRICS_CONTENT_TYPE, renderMetrics } from "../metrics";
+
+/**
+ * Prometheus scrape endpoint (`/metrics`): calls, OTP, FCM and ARI counters.
+ * Requires `Authorization: Bearer <METRICS_TOKEN>` when METRICS_TOKEN is set.
+ */
+export const registerMetricsRoutes = async (app: FastifyInstance) => {
+  app.get("/metrics", async (request, reply) => {
+    if (env.metricsToken && !hasBearerToken(request, env.metricsToken)) {
+      return reply.code(401).send({ error: "Unauthorized" });
+    }
+    return reply.type(METRICS_CONTENT_TYPE).send(await renderMetrics());
+  });
+};
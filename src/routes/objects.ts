@@ -0,0 +1,46 @@
+import * as fs from "fs";
+import { FastifyInstance } from "fastify";
+import { env } from "../config/env";
+import {
+  getLocalObjectPath,
+  isStoredObjectKey,
+  storedObjectContentType,
+  verifyObjectLinkSignature,
+} from "../storage/objects";
+
+/**
+ * Serve locally stored panel snapshots and voice messages by signed link (`/objects/:key?expires=&signature=`).
+ * No session: the link itself is the credential and expires after env.objectStorage.urlTtlSec.
+ * With OBJECT_STORAGE=s3 links point to the bucket and this route always answers 404.
+ */
+export const registerObjectRoutes = async (app: FastifyInstance) => {
+  app.get<{ Params: { key: string }; Querystring: { expires?: string; signature?: string } }>(
+    "/objects/:key",
+    async (request, reply) => {
+      const { key } = request.params;
+      const expires = Number(request.query.expires);
+      const signature = request.query.signature ?? "";
+      // Never a stored object (and never a path outside OBJECT_STORAGE_DIR).
+      if (!isStoredObjectKey(key)) {
+        return reply.code(404).send({ error: "Object not found" });
+      }
+      if (!verifyObjectLinkSignature(key, expires, signature)) {
+        return reply.code(403).send({ error: "Invalid or expired link" });
+      }
+      if (env.objectStorage.storage !== "local") {
+        return reply.code(404).send({ error: "Object not found" });
+      }
+
+      const filePath = getLocalObjectPath(key);
+      try {
+        await fs.promises.access(filePath, fs.constants.R_OK);
+      } catch {
+        return reply.code(404).send({ error: "Object not found" });
+      }
+      return reply
+        .type(storedObjectContentType(key))
+        .header("cache-control", "private, max-age=300")
+        .send(fs.createReadStream(filePath));
+    }
+  );
+};
@@ -0,0 +1,106 @@
+import { FastifyInstance } from "fastify";
+import { requireAuth } from "../auth/session";
+import { startLiveView } from "../call/liveView";
+import { panelServesResident } from "../call/panelZones";
+import { openDoor } from "../door/unlock";
+import { getPanelById, getUserBinding, listPanelZones } from "../store/postgres";
+import { getActiveIncomingFromPanel } from "../store/redis";
+
+import type { PanelRecord } from "../store/postgres";
+
+/**
+ * Register panel routes for residents (require a signed-in resident whose apartment the panel serves):
+ * - open the door without an incoming call (`/panels/:panelId/open-door`)
+ * - watch the panel camera without an incoming call (`/panels/:panelId/live-view`)
+ */
+export const registerPanelRoutes = async (app: FastifyInstance) => {
+  /**
+   * Whether the signed-in resident's apartment is served by the panel.
+   */
+  const servesResident = async (userId: number, panel: PanelRecord): Promise<boolean> => {
+    const [binding, zones] = await Promise.all([getUserBinding(userId), listPanelZones(panel.id)]);
+    return binding !== null && panelServesResident(panel, zones, binding);
+  };
+
+  /**
+   * Panel by id if the signed-in resident's apartment is served by it, else null.
+   */
+  const findResidentPanel = async (userId: number, panelId: number): Promise<PanelRecord | null> => {
+    const panel = await getPanelById(panelId);
+    return panel && (await servesResident(userId, panel)) ? panel : null;
+  };
+
+  /**
+   * Open the door outside of a call. Only HTTP relay panels support this:
+   * DTMF unlock needs a live panel channel. 403 for residents of apartments the panel does not serve.
+   */
+  app.post<{ Params: { panelId: string } }>(
+    "/panels/:panelId/open-door",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const panelId = Number(request.params.panelId);
+      if (!Number.isInteger(panelId) || panelId <= 0) {
+        return reply.code(400).send({ error: "Invalid panelId" });
+      }
+      const panel = await getPanelById(panelId);
+      if (!panel) {
+        return reply.code(404).send({ error: "Panel not found" });
+      }
+      if (!(await servesResident(request.auth!.userId, panel))) {
+        return reply.code(403).send({ error: "Panel does not serve your apartment" });
+      }
+
+      let result;
+      try {
+        result = await openDoor(panel, null);
+      } catch (err) {
+        request.log.warn({ err, panelId }, "open-door: unlock request failed");
+        return reply.code(502).send({ error: "Failed to open door" });
+      }
+      if (result === "channel_required") {
+        return reply.code(409).send({ error: "Door can only be opened during a call for this panel" });
+      }
+      if (result !== "opened") {
+        return reply.code(409).send({ error: "Door unlock is not configured for this panel" });
+      }
+
+      request.log.info({ panelId, userId: request.auth!.userId }, "Door opened from app (no call)");
+      return reply.code(204).send();
+    }
+  );
+
+  /**
+   * Start a live view: temporary SIP credentials the app registers with, then dials `extension`.
+   * The backend calls the panel into a bridge with the app muted (video and sound from the entrance only)
+   * and hangs up after maxDurationSec. Needs a panel identified by SIP endpoint id that is not in a call.
+   */
+  app.post<{ Params: { panelId: string } }>(
+    "/panels/:panelId/live-view",
+    { preHandler: requireAuth },
+    async (request, reply) => {
+      const panelId = Number(request.params.panelId);
+      if (!Number.isInteger(panelId) || panelId <= 0) {
+        return reply.code(400).send({ error: "Invalid panelId" });
+      }
+      const userId = request.auth!.userId;
+      const panel = await findResidentPanel(userId, panelId);
+      if (!panel) {
+        return reply.code(404).send({ error: "Panel not found" });
+      }
+      const { endpoint_id: endpointId } = panel;
+      if (!endpointId) {
+        return reply.code(409).send({ error: "Live view needs a panel with a SIP endpoint id" });
+      }
+      if (await getActiveIncomingFromPanel(endpointId)) {
+        return reply.code(409).send({ error: "Panel is busy with a call" });
+      }
+
+      const session = await startLiveView(userId, { ...panel, endpoint_id: endpointId });
+      if (!session) {
+        return reply.code(409).send({ error: "Live view of this panel is already in progress" });
+      }
+      request.log.info({ panelId, userId, liveViewId: session.liveViewId }, "Live view credentials issued");
+      return session;
+    }
+  );
+};
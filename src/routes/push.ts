@@ -1,20 +1,28 @@
 import { FastifyInstance } from "fastify";
+import { requireAuth } from "../auth/session";
 import { savePushToken } from "../store/postgres";
 
 import type { RegisterBody } from "../types";
 
 /**
  * Push registration endpoint.
- * Stores FCM (or other) push token for a user.
+ * Stores push token for the signed-in user's device: platform "android" (FCM),
+ * "ios" (APNs device token) or "ios_voip" (PushKit token; iOS app registers both).
  */
 export const registerPushRoutes = async (app: FastifyInstance) => {
-  app.post<{ Body: RegisterBody }>("/push/register", async (request) => {
-    const { userId, pushToken, platform } = request.body;
-    if (!userId || !pushToken || !platform) {
+  app.post<{ Body: RegisterBody }>("/push/register", { preHandler: requireAuth }, async (request) => {
+    const pushToken = request.body?.pushToken;
+    const platform = request.body?.platform;
+    if (!pushToken || !platform) {
       return app.httpErrors.badRequest("Missing required fields");
     }
 
-    await savePushToken({ userId, pushToken, platform });
+    await savePushToken({
+      userId: request.auth!.userId,
+      pushToken,
+      platform,
+      deviceId: request.auth!.deviceId,
+    });
     return { ok: true };
   });
 };
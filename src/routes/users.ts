@@ -0,0 +1,114 @@
+import { FastifyInstance } from "fastify";
+import { requireAuth } from "../auth/session";
+import { isValidTimeZone } from "../call/dnd";
+import { clearDndSettings, getDndSettings, getForwardPhone, setDndSettings, setForwardPhone } from "../store/postgres";
+
+import type { DndWindow } from "../store/postgres";
+
+const hhmm = { type: "string", pattern: "^([01]\\d|2[0-3]):[0-5]\\d$" } as const;
+
+const dndBodySchema = {
+  type: "object",
+  required: ["timezone"],
+  additionalProperties: false,
+  properties: {
+    timezone: { type: "string", minLength: 1, maxLength: 64 },
+    windows: {
+      type: "array",
+      maxItems: 20,
+      items: {
+        type: "object",
+        required: ["from", "to"],
+        additionalProperties: false,
+        properties: {
+          from: hhmm,
+          to: hhmm,
+          days: { type: "array", maxItems: 7, uniqueItems: true, items: { type: "integer", minimum: 1, maximum: 7 } },
+        },
+      },
+    },
+    until: { type: ["string", "null"], format: "date-time" },
+    mutedPanelIds: { type: "array", maxItems: 100, uniqueItems: true, items: { type: "integer", minimum: 1 } },
+  },
+} as const;
+
+/** Settings reported for a resident who never set any (always rung). */
+const DEFAULT_DND = { timezone: "Europe/Moscow", windows: [], dnd_until: null, muted_panel_ids: [] };
+
+type DndBody = {
+  timezone: string;
+  windows?: DndWindow[];
+  until?: string | null;
+  mutedPanelIds?: number[];
+};
+
+/**
+ * Register settings routes of the signed-in resident:
+ * - forward unanswered panel calls to a phone over the multifon trunk (`/users/me/forwarding`)
+ * - do-not-disturb: quiet windows, until-date and muted panels (`/users/me/dnd`)
+ */
+export const registerUserRoutes = async (app: FastifyInstance) => {
+  app.get("/users/me/forwarding", { preHandler: requireAuth }, async (request, reply) => {
+    const phone = await getForwardPhone(request.auth!.userId);
+    if (phone === undefined) return reply.code(404).send({ error: "User not found" });
+    return { phone };
+  });
+
+  /**
+   * phone: 7XXXXXXXXXX or null to stop forwarding. Rung on ring timeout, or together with the family's
+   * devices when the resident has no app device.
+   */
+  app.put<{ Body: { phone: string | null } }>(
+    "/users/me/forwarding",
+    {
+      preHandler: requireAuth,
+      schema: {
+        body: {
+          type: "object",
+          required: ["phone"],
+          additionalProperties: false,
+          properties: { phone: { type: ["string", "null"], pattern: "^7\\d{10}$" } },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { phone } = request.body;
+      if (!(await setForwardPhone(request.auth!.userId, phone))) {
+        return reply.code(404).send({ error: "User not found" });
+      }
+      request.log.info({ userId: request.auth!.userId, enabled: phone !== null }, "Call forwarding updated");
+      return { phone };
+    }
+  );
+
+  app.get("/users/me/dnd", { preHandler: requireAuth }, async (request) => {
+    const userId = request.auth!.userId;
+    return (await getDndSettings(userId)) ?? { user_id: userId, ...DEFAULT_DND };
+  });
+
+  /**
+   * Replace DND settings. Calls muted by them go to DND_CALL_ACTION when nobody else in the apartment is rung
+   * and appear in history as 'dnd'.
+   */
+  app.put<{ Body: DndBody }>(
+    "/users/me/dnd",
+    { preHandler: requireAuth, schema: { body: dndBodySchema } },
+    async (request, reply) => {
+      const body = request.body;
+      if (!isValidTimeZone(body.timezone)) {
+        return reply.code(400).send({ error: "Unknown timezone" });
+      }
+      return setDndSettings(request.auth!.userId, {
+        timezone: body.timezone,
+        windows: body.windows ?? [],
+        until: body.until ?? null,
+        mutedPanelIds: body.mutedPanelIds ?? [],
+      });
+    }
+  );
+
+  app.delete("/users/me/dnd", { preHandler: requireAuth }, async (request, reply) => {
+    await clearDndSettings(request.auth!.userId);
+    return reply.code(204).send();
+  });
+};
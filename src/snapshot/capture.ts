@@ -0,0 +1,50 @@
+import { panelFetch } from "../door/panelFetch";
+import { saveObject } from "../storage/objects";
+
+/** Keep short: the call push waits for the snapshot. */
+const SNAPSHOT_FETCH_TIMEOUT_MS = 2000;
+const SNAPSHOT_MAX_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Read the response body, giving up as soon as it is known to exceed maxBytes
+ * (declared Content-Length or bytes received so far) instead of buffering all of it.
+ */
+const readLimited = async (res: Response, maxBytes: number): Promise<Buffer> => {
+  const declared = Number(res.headers.get("content-length"));
+  if (declared > maxBytes) {
+    await res.body?.cancel();
+    throw new Error(`Panel snapshot too large: ${declared} bytes`);
+  }
+  if (!res.body) return Buffer.alloc(0);
+  const reader = res.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    received += value.byteLength;
+    if (received > maxBytes) {
+      await reader.cancel();
+      throw new Error(`Panel snapshot too large: over ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Fetch a JPEG from the panel's snapshot URL and store it as `<callId>.jpg`.
+ * Returns the storage key. Throws when the panel does not answer, sends more than SNAPSHOT_MAX_BYTES
+ * or returns something other than a JPEG.
+ */
+export const captureCallSnapshot = async (callId: string, snapshotUrl: string): Promise<string> => {
+  const res = await panelFetch(snapshotUrl, SNAPSHOT_FETCH_TIMEOUT_MS);
+  const jpeg = await readLimited(res, SNAPSHOT_MAX_BYTES);
+  // JPEG SOI marker; panels answer with HTML error pages on wrong path/credentials.
+  if (jpeg.length < 3 || jpeg[0] !== 0xff || jpeg[1] !== 0xd8 || jpeg[2] !== 0xff) {
+    throw new Error("Panel snapshot is not a JPEG image");
+  }
+  const key = `${callId}.jpg`;
+  await saveObject(key, jpeg);
+  return key;
+};
@@ -0,0 +1,265 @@
+import * as fs from "fs";
+import * as path from "path";
+import crypto from "crypto";
+import { Readable } from "stream";
+import type { ReadableStream } from "stream/web";
+import { env } from "../config/env";
+
+/** Upload, delete, and the response headers of a download (the body then streams as long as it takes). */
+const S3_REQUEST_TIMEOUT_MS = 5000;
+/**
+ * Object keys are generated by us: `<callId>.jpg` (panel snapshot), `<callId>.wav` (voice message)
+ * or `<callId>-call.wav` (conversation recording).
+ */
+const OBJECT_KEY_PATTERN = /^[A-Za-z0-9_-]{1,128}\.(jpg|wav)$/;
+
+export const isStoredObjectKey = (key: string) => OBJECT_KEY_PATTERN.test(key);
+
+/**
+ * Content type of a stored object by its key extension.
+ */
+export const storedObjectContentType = (key: string) => (key.endsWith(".wav") ? "audio/wav" : "image/jpeg");
+
+const sha256Hex = (data: string | Buffer) => crypto.createHash("sha256").update(data).digest("hex");
+
+const hmac = (key: string | Buffer, data: string) => crypto.createHmac("sha256", key).update(data).digest();
+
+/** RFC 3986 encoding as required by AWS Signature V4. */
+const awsEncode = (value: string) =>
+  encodeURIComponent(value).replace(/[!'()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+
+const amzDate = (date: Date) => date.toISOString().replace(/[:-]|\.\d{3}/g, "");
+
+const s3Config = () => {
+  const s3 = env.objectStorage.s3;
+  if (!s3.endpoint || !s3.bucket || !s3.accessKeyId || !s3.secretAccessKey) {
+    throw new Error(
+      "S3_ENDPOINT, S3_BUCKET, S3_ACCESS_KEY_ID and S3_SECRET_ACCESS_KEY are required for OBJECT_STORAGE=s3."
+    );
+  }
+  return s3;
+};
+
+/**
+ * AWS Signature V4 for a path-style S3 request (works with MinIO, Yandex Object Storage, etc.).
+ * Returns signature and the credential scope parts the caller puts into headers or query.
+ */
+const signS3 = (params: {
+  method: string;
+  canonicalPath: string;
+  canonicalQuery: string;
+  headers: Record<string, string>;
+  payloadHash: string;
+  date: Date;
+}) => {
+  const s3 = s3Config();
+  const timestamp = amzDate(params.date);
+  const day = timestamp.slice(0, 8);
+  const scope = `${day}/${s3.region}/s3/aws4_request`;
+  const headerNames = Object.keys(params.headers).map((h) => h.toLowerCase()).sort();
+  const canonicalHeaders = headerNames
+    .map((name) => `${name}:${String(params.headers[name] ?? "").trim()}\n`)
+    .join("");
+  const signedHeaders = headerNames.join(";");
+  const canonicalRequest = [
+    params.method,
+    params.canonicalPath,
+    params.canonicalQuery,
+    canonicalHeaders,
+    signedHeaders,
+    params.payloadHash,
+  ].join("\n");
+  const stringToSign = ["AWS4-HMAC-SHA256", timestamp, scope, sha256Hex(canonicalRequest)].join("\n");
+  const signingKey = hmac(hmac(hmac(hmac(`AWS4${s3.secretAccessKey}`, day), s3.region), "s3"), "aws4_request");
+  return {
+    signature: crypto.createHmac("sha256", signingKey).update(stringToSign).digest("hex"),
+    credential: `${s3.accessKeyId}/${scope}`,
+    signedHeaders,
+    timestamp,
+  };
+};
+
+const s3Object = (key: string) => {
+  const s3 = s3Config();
+  const url = new URL(s3.endpoint);
+  const canonicalPath = `${url.pathname.replace(/\/+$/, "")}/${awsEncode(s3.bucket)}/${awsEncode(key)}`;
+  return { origin: url.origin, host: url.host, canonicalPath };
+};
+
+const putS3Object = async (key: string, data: Buffer) => {
+  const { origin, host, canonicalPath } = s3Object(key);
+  const payloadHash = sha256Hex(data);
+  const date = new Date();
+  const headers: Record<string, string> = {
+    host,
+    "content-type": storedObjectContentType(key),
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate(date),
+  };
+  const { signature, credential, signedHeaders } = signS3({
+    method: "PUT",
+    canonicalPath,
+    canonicalQuery: "",
+    headers,
+    payloadHash,
+    date,
+  });
+  const { host: _host, ...sentHeaders } = headers;
+  const res = await fetch(`${origin}${canonicalPath}`, {
+    method: "PUT",
+    headers: {
+      ...sentHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    body: data,
+    signal: AbortSignal.timeout(S3_REQUEST_TIMEOUT_MS),
+  });
+  if (!res.ok) {
+    throw new Error(`S3 upload failed: ${res.status}`);
+  }
+};
+
+const deleteS3Object = async (key: string) => {
+  const { origin, host, canonicalPath } = s3Object(key);
+  const payloadHash = sha256Hex("");
+  const date = new Date();
+  const headers: Record<string, string> = {
+    host,
+    "x-amz-content-sha256": payloadHash,
+    "x-amz-date": amzDate(date),
+  };
+  const { signature, credential, signedHeaders } = signS3({
+    method: "DELETE",
+    canonicalPath,
+    canonicalQuery: "",
+    headers,
+    payloadHash,
+    date,
+  });
+  const { host: _host, ...sentHeaders } = headers;
+  const res = await fetch(`${origin}${canonicalPath}`, {
+    method: "DELETE",
+    headers: {
+      ...sentHeaders,
+      authorization: `AWS4-HMAC-SHA256 Credential=${credential}, SignedHeaders=${signedHeaders}, Signature=${signature}`,
+    },
+    signal: AbortSignal.timeout(S3_REQUEST_TIMEOUT_MS),
+  });
+  // S3 answers 204 for a missing key too.
+  if (!res.ok) {
+    throw new Error(`S3 delete failed: ${res.status}`);
+  }
+};
+
+/**
+ * Presigned GET URL for an S3 object (query-string SigV4).
+ */
+const presignS3Object = (key: string, ttlSec: number): string => {
+  const { origin, host, canonicalPath } = s3Object(key);
+  const date = new Date();
+  const s3 = s3Config();
+  const timestamp = amzDate(date);
+  const query: Record<string, string> = {
+    "X-Amz-Algorithm": "AWS4-HMAC-SHA256",
+    "X-Amz-Credential": `${s3.accessKeyId}/${timestamp.slice(0, 8)}/${s3.region}/s3/aws4_request`,
+    "X-Amz-Date": timestamp,
+    "X-Amz-Expires": String(ttlSec),
+    "X-Amz-SignedHeaders": "host",
+  };
+  const canonicalQuery = Object.keys(query)
+    .sort()
+    .map((k) => `${awsEncode(k)}=${awsEncode(query[k] ?? "")}`)
+    .join("&");
+  const { signature } = signS3({
+    method: "GET",
+    canonicalPath,
+    canonicalQuery,
+    headers: { host },
+    payloadHash: "UNSIGNED-PAYLOAD",
+    date,
+  });
+  return `${origin}${canonicalPath}?${canonicalQuery}&X-Amz-Signature=${signature}`;
+};
+
+const localSignature = (key: string, expires: number) =>
+  crypto.createHmac("sha256", env.authTokenSecret).update(`object:${key}:${expires}`).digest("base64url");
+
+/**
+ * Check signature and expiry of a local object link (GET /objects/:key).
+ */
+export const verifyObjectLinkSignature = (key: string, expires: number, signature: string): boolean => {
+  if (!isStoredObjectKey(key) || !Number.isInteger(expires) || expires < Math.floor(Date.now() / 1000)) return false;
+  const expected = Buffer.from(localSignature(key, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+};
+
+/**
+ * Path of a locally stored object (key must pass isStoredObjectKey).
+ */
+export const getLocalObjectPath = (key: string) => path.join(env.objectStorage.dir, key);
+
+/**
+ * Store a JPEG snapshot or WAV recording under key in the configured storage (OBJECT_STORAGE).
+ */
+export const saveObject = async (key: string, data: Buffer) => {
+  if (!isStoredObjectKey(key)) throw new Error(`Invalid object key: ${key}`);
+  if (env.objectStorage.storage === "s3") {
+    await putS3Object(key, data);
+    return;
+  }
+  await fs.promises.mkdir(env.objectStorage.dir, { recursive: true });
+  await fs.promises.writeFile(getLocalObjectPath(key), data);
+};
+
+/**
+ * Short-lived URL the app can load the object from without a session
+ * (presigned S3 URL, or signed link to GET /objects/:key for local storage).
+ */
+export const getObjectUrl = (key: string, ttlSec: number = env.objectStorage.urlTtlSec): string => {
+  if (env.objectStorage.storage === "s3") {
+    return presignS3Object(key, ttlSec);
+  }
+  const expires = Math.floor(Date.now() / 1000) + ttlSec;
+  const query = `expires=${expires}&signature=${localSignature(key, expires)}`;
+  return `${env.publicBaseUrl}/objects/${encodeURIComponent(key)}?${query}`;
+};
+
+/**
+ * Stream a stored object through the backend (for links that must stay behind a session); null when missing.
+ */
+export const openObject = async (key: string): Promise<Readable | null> => {
+  if (!isStoredObjectKey(key)) return null;
+  if (env.objectStorage.storage === "s3") {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), S3_REQUEST_TIMEOUT_MS);
+    let res: Response;
+    try {
+      res = await fetch(presignS3Object(key, 60), { signal: controller.signal });
+    } finally {
+      clearTimeout(timer);
+    }
+    if (res.status === 404) return null;
+    if (!res.ok || !res.body) throw new Error(`S3 download failed: ${res.status}`);
+    return Readable.fromWeb(res.body as ReadableStream);
+  }
+  const filePath = getLocalObjectPath(key);
+  try {
+    await fs.promises.access(filePath, fs.constants.R_OK);
+  } catch {
+    return null;
+  }
+  return fs.createReadStream(filePath);
+};
+
+/**
+ * Delete a stored object (retention); a missing object is not an error.
+ */
+export const deleteObject = async (key: string) => {
+  if (!isStoredObjectKey(key)) throw new Error(`Invalid object key: ${key}`);
+  if (env.objectStorage.storage === "s3") {
+    await deleteS3Object(key);
+    return;
+  }
+  await fs.promises.rm(getLocalObjectPath(key), { force: true });
+};
@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as path from "path";
+import { db } from "./postgres";
+
+/** Numbered SQL files at the repo root (same path from src/ and dist/). */
+const MIGRATIONS_DIR = path.resolve(__dirname, "../../migrations");
+/** NNNN_description.sql */
+const MIGRATION_FILE_RE = /^(\d{4})_([\w-]+)\.sql$/;
+/** pg_advisory_lock key shared by every backend instance and the CLI. */
+const MIGRATIONS_LOCK_ID = 7_240_001;
+
+export type Migration = {
+  version: number;
+  name: string;
+  file: string;
+};
+
+export type MigrationStatus = Migration & {
+  appliedAt: Date | null;
+};
+
+/**
+ * Migration files sorted by version. Duplicate versions are a packaging error.
+ */
+export const listMigrations = (): Migration[] => {
+  const migrations = fs
+    .readdirSync(MIGRATIONS_DIR)
+    .map((file) => {
+      const match = MIGRATION_FILE_RE.exec(file);
+      return match ? { version: Number(match[1]), name: match[2]!, file } : null;
+    })
+    .filter((m): m is Migration => m !== null)
+    .sort((a, b) => a.version - b.version);
+  for (let i = 1; i < migrations.length; i++) {
+    if (migrations[i]!.version === migrations[i - 1]!.version) {
+      throw new Error(`Duplicate migration version ${migrations[i]!.version}`);
+    }
+  }
+  return migrations;
+};
+
+const ensureMigrationsTable = async (query: (sql: string) => Promise<unknown>) => {
+  await query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+    );
+  `);
+};
+
+/**
+ * Every known migration with the time it was applied (null = pending).
+ */
+export const getMigrationStatus = async (): Promise<MigrationStatus[]> => {
+  await ensureMigrationsTable((sql) => db.query(sql));
+  const { rows } = await db.query<{ version: number; applied_at: Date }>(
+    `SELECT version, applied_at FROM schema_migrations`
+  );
+  const appliedAt = new Map(rows.map((r) => [r.version, r.applied_at]));
+  return listMigrations().map((m) => ({ ...m, appliedAt: appliedAt.get(m.version) ?? null }));
+};
+
+/**
+ * Apply pending migrations in order, each in its own transaction. Holds an advisory lock meanwhile,
+ * so instances starting together apply every migration exactly once. Returns what was applied.
+ */
+export const runMigrations = async (): Promise<Migration[]> => {
+  const client = await db.connect();
+  try {
+    await client.query(`SELECT pg_advisory_lock($1)`, [MIGRATIONS_LOCK_ID]);
+    try {
+      await ensureMigrationsTable((sql) => client.query(sql));
+      const { rows } = await client.query<{ version: number }>(`SELECT version FROM schema_migrations`);
+      const applied = new Set(rows.map((r) => r.version));
+      const pending = listMigrations().filter((m) => !applied.has(m.version));
+      for (const migration of pending) {
+        const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, migration.file), "utf8");
+        await client.query("BEGIN");
+        try {
+          await client.query(sql);
+          await client.query(`INSERT INTO schema_migrations (version, name) VALUES ($1, $2)`, [
+            migration.version,
+            migration.name,
+          ]);
+          await client.query("COMMIT");
+        } catch (error) {
+          await client.query("ROLLBACK");
+          throw new Error(`Migration ${migration.file} failed: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+      return pending;
+    } finally {
+      await client.query(`SELECT pg_advisory_unlock($1)`, [MIGRATIONS_LOCK_ID]);
+    }
+  } finally {
+    client.release();
+  }
+};
@@ -1,6 +1,8 @@
 import { Pool } from "pg";
 import { env } from "../config/env";
 
+import type { CallHistoryStatus, PanelKind, PanelUnlockMethod } from "../types";
+
 const pool = new Pool({
   host: env.postgres.host,
   port: env.postgres.port,
@@ -9,145 +11,53 @@ const pool = new Pool({
   password: env.postgres.password,
 });
 
+/** Codecs of temporary device endpoints unless the panel overrides them. */
+export const DEFAULT_CODECS = "ulaw,alaw,h264";
+
 /**
- * Ensure core schema for users, calls, push tokens and PJSIP realtime tables.
- * Runs once at startup to make server self-contained.
- */
-export const createDatabaseSchema = async () => {
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS addresses (
-      id BIGSERIAL PRIMARY KEY,
-      street TEXT NOT NULL,
-      house TEXT NOT NULL,
-      building TEXT,
-      letter TEXT,
-      structure TEXT,
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      updated_at TIMESTAMPTZ DEFAULT NOW()
-    );
-  `);
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS panels (
-      id BIGSERIAL PRIMARY KEY,
-      ip INET UNIQUE NOT NULL,
-      address_id BIGINT NOT NULL REFERENCES addresses(id),
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      updated_at TIMESTAMPTZ DEFAULT NOW()
-    );
-  `);
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS users (
-      id SERIAL PRIMARY KEY,
-      phone TEXT UNIQUE,
-      is_active BOOLEAN DEFAULT FALSE,
-      paid_until DATE,
-      address_id BIGINT REFERENCES addresses(id),
-      apartment TEXT,
-      created_at TIMESTAMPTZ DEFAULT NOW(),
-      updated_at TIMESTAMPTZ DEFAULT NOW(),
-      last_verified_at TIMESTAMPTZ
-    );
-  `);
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS calls (
-      id SERIAL PRIMARY KEY,
-      user_id INTEGER REFERENCES users(id),
-      call_id TEXT NOT NULL,
-      status TEXT NOT NULL,
-      started_at TIMESTAMP DEFAULT NOW(),
-      ended_at TIMESTAMP,
-      -- optional: store preview URL for paid history feature
-      preview_url TEXT,
-      door_opened BOOLEAN DEFAULT FALSE
-    );
-  `);
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS ps_aors (
-      id TEXT PRIMARY KEY,
-      max_contacts INTEGER,
-      contact TEXT
-    );
-  `);
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS ps_auths (
-      id TEXT PRIMARY KEY,
-      auth_type TEXT,
-      username TEXT,
-      password TEXT,
-      realm TEXT
-    );
-  `);
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS ps_endpoints (
-      id TEXT PRIMARY KEY,
-      transport TEXT,
-      aors TEXT,
-      auth TEXT,
-      context TEXT,
-      disallow TEXT,
-      allow TEXT,
-      mailboxes TEXT,
-      templates TEXT,
-      direct_media TEXT,
-      force_rport TEXT,
-      rewrite_contact TEXT,
-      rtp_symmetric TEXT,
-      ice_support TEXT,
-      outbound_auth TEXT,
-      from_user TEXT,
-      from_domain TEXT,
-      callerid TEXT
-    );
-  `);
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS ps_registrations (
-      id TEXT PRIMARY KEY,
-      auth_rejection_permanent TEXT,
-      client_uri TEXT,
-      contact_user TEXT,
-      expiration INTEGER,
-      fatal_retry_interval INTEGER,
-      forbidden_retry_interval INTEGER,
-      max_retries INTEGER,
-      outbound_auth TEXT,
-      outbound_proxy TEXT,
-      retry_interval INTEGER,
-      server_uri TEXT,
-      transport TEXT,
-      support_path TEXT,
-      support_outbound_authentication TEXT
-    );
-  `);
-  await pool.query(`
-    CREATE TABLE IF NOT EXISTS push_tokens (
-      id SERIAL PRIMARY KEY,
-      user_id INTEGER REFERENCES users(id),
-      push_token TEXT NOT NULL,
-      platform TEXT NOT NULL,
-      created_at TIMESTAMP DEFAULT NOW(),
-      updated_at TIMESTAMP DEFAULT NOW(),
-      UNIQUE (user_id, push_token)
-    );
-  `);
+ * Build "column = $n" list for partial UPDATE from defined fields only.
+ * Column names come from code, never from request input.
+ */
+const buildSetClause = (fields: Record<string, unknown>, firstParam: number) => {
+  const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+  return {
+    sql: entries.map(([column], i) => `${column} = $${firstParam + i}`).join(", "),
+    values: entries.map(([, value]) => value),
+  };
 };
 
 /**
- * Save (or update) push token (FCM) for a user.
+ * Select a TIMESTAMPTZ column as an ISO string in UTC (e.g. 2026-05-01T09:00:00Z).
+ */
+const isoColumn = (column: string) =>
+  `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS"Z"') AS ${column}`;
+
+/**
+ * Save (or update) push token (FCM / APNs / PushKit) for a user device.
+ * A device keeps one token per platform: a rotated token replaces the previous one.
  */
 export const savePushToken = async (params: {
   userId: number;
   pushToken: string;
   platform: string;
+  deviceId: string;
 }) => {
-  const { userId, pushToken, platform } = params;
+  const { userId, pushToken, platform, deviceId } = params;
   await pool.query(
     `
-    INSERT INTO push_tokens (user_id, push_token, platform)
-    VALUES ($1, $2, $3)
+    INSERT INTO push_tokens (user_id, push_token, platform, device_id)
+    VALUES ($1, $2, $3, $4)
     ON CONFLICT (user_id, push_token)
-    DO UPDATE SET platform = EXCLUDED.platform, updated_at = NOW();
+    DO UPDATE SET platform = EXCLUDED.platform, device_id = EXCLUDED.device_id, updated_at = NOW();
+    `,
+    [userId, pushToken, platform, deviceId]
+  );
+  await pool.query(
+    `
+    DELETE FROM push_tokens
+    WHERE user_id = $1 AND device_id = $2 AND platform = $3 AND push_token <> $4
     `,
-    [userId, pushToken, platform]
+    [userId, deviceId, platform, pushToken]
   );
 };
 
@@ -158,8 +68,15 @@ export type AddressRecord = {
   building: string | null;
   letter: string | null;
   structure: string | null;
+  /** PJSIP endpoint of the concierge / security desk residents can call from the app. */
+  concierge_endpoint_id: string | null;
+  /** Days recordings of answered panel calls are kept; null = calls at the address are not recorded. */
+  call_recording_days: number | null;
 };
 
+const ADDRESS_COLUMNS =
+  "id::int AS id, street, house, building, letter, structure, concierge_endpoint_id, call_recording_days";
+
 /**
  * Create an address row and return stored canonical fields.
  * Optional parts are persisted as NULL when omitted.
@@ -170,15 +87,26 @@ export const addAddress = async (params: {
   building?: string;
   letter?: string;
   structure?: string;
+  conciergeEndpointId?: string | null;
+  callRecordingDays?: number | null;
 }): Promise<AddressRecord> => {
-  const { street, house, building, letter, structure } = params;
+  const { street, house, building, letter, structure, conciergeEndpointId, callRecordingDays } = params;
   const result = await pool.query<AddressRecord>(
     `
-    INSERT INTO addresses (street, house, building, letter, structure, created_at, updated_at)
-    VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
-    RETURNING id, street, house, building, letter, structure
+    INSERT INTO addresses
+      (street, house, building, letter, structure, concierge_endpoint_id, call_recording_days, created_at, updated_at)
+    VALUES ($1, $2, $3, $4, $5, $6, $7, NOW(), NOW())
+    RETURNING ${ADDRESS_COLUMNS}
     `,
-    [street, house, building ?? null, letter ?? null, structure ?? null]
+    [
+      street,
+      house,
+      building ?? null,
+      letter ?? null,
+      structure ?? null,
+      conciergeEndpointId ?? null,
+      callRecordingDays ?? null,
+    ]
   );
   const row = result.rows[0];
   if (!row) throw new Error("Failed to create address");
@@ -192,7 +120,7 @@ export const addAddress = async (params: {
 export const getAddressById = async (addressId: number): Promise<AddressRecord | null> => {
   const result = await pool.query<AddressRecord>(
     `
-    SELECT id, street, house, building, letter, structure
+    SELECT ${ADDRESS_COLUMNS}
     FROM addresses
     WHERE id = $1
     LIMIT 1
@@ -202,6 +130,58 @@ export const getAddressById = async (addressId: number): Promise<AddressRecord |
   return result.rows[0] ?? null;
 };
 
+/**
+ * List all addresses ordered by id.
+ */
+export const listAddresses = async (): Promise<AddressRecord[]> => {
+  const result = await pool.query<AddressRecord>(
+    `SELECT ${ADDRESS_COLUMNS} FROM addresses ORDER BY id`
+  );
+  return result.rows;
+};
+
+/**
+ * Update address fields (undefined = keep, null = clear optional part).
+ * Returns null when address does not exist.
+ */
+export const updateAddress = async (
+  addressId: number,
+  params: {
+    street?: string;
+    house?: string;
+    building?: string | null;
+    letter?: string | null;
+    structure?: string | null;
+    conciergeEndpointId?: string | null;
+    callRecordingDays?: number | null;
+  }
+): Promise<AddressRecord | null> => {
+  const { conciergeEndpointId, callRecordingDays, ...parts } = params;
+  const set = buildSetClause(
+    { ...parts, concierge_endpoint_id: conciergeEndpointId, call_recording_days: callRecordingDays },
+    2
+  );
+  const result = await pool.query<AddressRecord>(
+    `
+    UPDATE addresses
+    SET ${set.sql ? `${set.sql}, ` : ""}updated_at = NOW()
+    WHERE id = $1
+    RETURNING ${ADDRESS_COLUMNS}
+    `,
+    [addressId, ...set.values]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Delete address. Throws FK violation (23503) while panels or users still reference it.
+ * Returns false when address does not exist.
+ */
+export const deleteAddress = async (addressId: number): Promise<boolean> => {
+  const result = await pool.query(`DELETE FROM addresses WHERE id = $1`, [addressId]);
+  return (result.rowCount ?? 0) > 0;
+};
+
 /**
  * Format address record for FCM/UI (house only, no apartment).
  */
@@ -221,26 +201,68 @@ export const formatAddress = (record: AddressRecord): string => {
 
 export type PanelRecord = {
   id: number;
-  ip: string;
+  /** PJSIP endpoint id the panel registers / calls from; matched before any IP. */
+  endpoint_id: string | null;
+  /** Main panel IP (inet, as text). */
+  ip: string | null;
+  /** Extra addresses or CIDRs the panel may call from (behind NAT, changing IPs). */
+  ip_ranges: string[];
+  /** Panel's own address; residents of other addresses are reached through panel_zones. */
   address_id: number;
+  /** Entrance or gate name appended to the push address, e.g. "подъезд 2". */
+  name: string | null;
+  kind: PanelKind;
+  /** How the door is opened remotely: DTMF into the panel channel or HTTP request to the panel relay. */
+  unlock_method: PanelUnlockMethod | null;
+  /** DTMF digit string sent into the panel channel (unlock_method = 'dtmf'). */
+  unlock_dtmf: string | null;
+  /** Panel relay URL requested with GET (unlock_method = 'http'). */
+  unlock_url: string | null;
+  /** Panel HTTP URL returning a JPEG frame, captured on incoming call. */
+  snapshot_url: string | null;
 };
 
+const PANEL_COLUMNS =
+  "id::int AS id, endpoint_id, ip::text AS ip, ip_ranges::text[] AS ip_ranges, address_id::int AS address_id, name, kind, " +
+  "unlock_method, unlock_dtmf, unlock_url, snapshot_url";
+
 /**
- * Create panel mapping (IP -> address) and return inserted row.
- * IP is stored as inet and returned as text.
+ * Create panel mapping (endpoint id / IP -> address) and return inserted row.
+ * IP is stored as inet, ranges as cidr[]; both are returned as text.
  */
 export const addPanel = async (params: {
-  ip: string;
+  endpointId?: string | null;
+  ip?: string | null;
+  ipRanges?: string[];
   addressId: number;
+  name?: string | null;
+  kind?: PanelKind;
+  unlockMethod?: PanelUnlockMethod | null;
+  unlockDtmf?: string | null;
+  unlockUrl?: string | null;
+  snapshotUrl?: string | null;
 }): Promise<PanelRecord> => {
-  const { ip, addressId } = params;
+  const { endpointId, ip, ipRanges, addressId, name, kind, unlockMethod, unlockDtmf, unlockUrl, snapshotUrl } = params;
   const result = await pool.query<PanelRecord>(
     `
-    INSERT INTO panels (ip, address_id, created_at, updated_at)
-    VALUES ($1::inet, $2, NOW(), NOW())
-    RETURNING id, ip::text AS ip, address_id
+    INSERT INTO panels (
+      endpoint_id, ip, ip_ranges, address_id, name, kind, unlock_method, unlock_dtmf, unlock_url, snapshot_url, created_at, updated_at
+    )
+    VALUES ($1, $2::inet, $3::cidr[], $4, $5, $6, $7, $8, $9, $10, NOW(), NOW())
+    RETURNING ${PANEL_COLUMNS}
     `,
-    [ip, addressId]
+    [
+      endpointId ?? null,
+      ip ?? null,
+      ipRanges ?? [],
+      addressId,
+      name ?? null,
+      kind ?? "entrance",
+      unlockMethod ?? null,
+      unlockDtmf ?? null,
+      unlockUrl ?? null,
+      snapshotUrl ?? null,
+    ]
   );
   const row = result.rows[0];
   if (!row) throw new Error("Failed to create panel");
@@ -248,44 +270,540 @@ export const addPanel = async (params: {
 };
 
 /**
- * Find panel by IP address.
- * Returns null when no panel exists for this IP.
+ * Find the panel an incoming call comes from: by PJSIP endpoint id first, then by source IP
+ * (exact panel IP wins over ranges, a narrower range over a wider one).
+ * Returns null when neither matches.
+ */
+export const findPanel = async (params: { endpointId?: string | null; ip?: string | null }): Promise<PanelRecord | null> => {
+  if (params.endpointId) {
+    const result = await pool.query<PanelRecord>(
+      `SELECT ${PANEL_COLUMNS} FROM panels WHERE endpoint_id = $1 LIMIT 1`,
+      [params.endpointId]
+    );
+    if (result.rows[0]) return result.rows[0];
+  }
+  if (!params.ip) return null;
+  const result = await pool.query<PanelRecord>(
+    `
+    SELECT ${PANEL_COLUMNS}
+    FROM panels
+    WHERE ip = $1::inet OR $1::inet <<= ANY(ip_ranges)
+    ORDER BY
+      (ip IS NOT NULL AND ip = $1::inet) DESC,
+      (SELECT MAX(masklen(r)) FROM unnest(ip_ranges) AS r WHERE $1::inet <<= r) DESC NULLS LAST,
+      id
+    LIMIT 1
+    `,
+    [params.ip]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Load panel by id.
+ * Returns null when no panel exists for this id.
  */
-export const getPanel = async (ip: string): Promise<PanelRecord | null> => {
+export const getPanelById = async (panelId: number): Promise<PanelRecord | null> => {
   const result = await pool.query<PanelRecord>(
     `
-    SELECT id, ip::text AS ip, address_id
+    SELECT ${PANEL_COLUMNS}
     FROM panels
-    WHERE ip = $1::inet
+    WHERE id = $1
     LIMIT 1
     `,
-    [ip]
+    [panelId]
   );
   return result.rows[0] ?? null;
 };
 
+/**
+ * List all panels ordered by id.
+ */
+export const listPanels = async (): Promise<PanelRecord[]> => {
+  const result = await pool.query<PanelRecord>(`SELECT ${PANEL_COLUMNS} FROM panels ORDER BY id`);
+  return result.rows;
+};
+
+/**
+ * Update panel fields (undefined = keep, null = clear).
+ * Returns null when panel does not exist.
+ */
+export const updatePanel = async (
+  panelId: number,
+  params: {
+    endpointId?: string | null;
+    ip?: string | null;
+    ipRanges?: string[];
+    addressId?: number;
+    name?: string | null;
+    kind?: PanelKind;
+    unlockMethod?: PanelUnlockMethod | null;
+    unlockDtmf?: string | null;
+    unlockUrl?: string | null;
+    snapshotUrl?: string | null;
+  }
+): Promise<PanelRecord | null> => {
+  const set = buildSetClause(
+    {
+      endpoint_id: params.endpointId,
+      ip: params.ip,
+      ip_ranges: params.ipRanges,
+      address_id: params.addressId,
+      name: params.name,
+      kind: params.kind,
+      unlock_method: params.unlockMethod,
+      unlock_dtmf: params.unlockDtmf,
+      unlock_url: params.unlockUrl,
+      snapshot_url: params.snapshotUrl,
+    },
+    2
+  );
+  const result = await pool.query<PanelRecord>(
+    `
+    UPDATE panels
+    SET ${set.sql ? `${set.sql}, ` : ""}updated_at = NOW()
+    WHERE id = $1
+    RETURNING ${PANEL_COLUMNS}
+    `,
+    [panelId, ...set.values]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Delete panel. Returns false when panel does not exist.
+ */
+export const deletePanel = async (panelId: number): Promise<boolean> => {
+  const result = await pool.query(`DELETE FROM panels WHERE id = $1`, [panelId]);
+  return (result.rowCount ?? 0) > 0;
+};
+
+/** Apartment range a panel serves at some address (migrations/0004_panel_zones.sql). */
+export type PanelZone = {
+  id: number;
+  panel_id: number;
+  address_id: number;
+  apartment_from: number;
+  apartment_to: number;
+  apartment_offset: number;
+};
+
+const PANEL_ZONE_COLUMNS =
+  "id::int AS id, panel_id::int AS panel_id, address_id::int AS address_id, apartment_from, apartment_to, apartment_offset";
+
+/**
+ * List zones of a panel ordered by id.
+ */
+export const listPanelZones = async (panelId: number): Promise<PanelZone[]> => {
+  const result = await pool.query<PanelZone>(
+    `SELECT ${PANEL_ZONE_COLUMNS} FROM panel_zones WHERE panel_id = $1 ORDER BY id`,
+    [panelId]
+  );
+  return result.rows;
+};
+
+/**
+ * Replace all zones of a panel (empty list removes them) and return the new ones.
+ */
+export const replacePanelZones = async (
+  panelId: number,
+  zones: { addressId: number; apartmentFrom: number; apartmentTo: number; apartmentOffset?: number }[]
+): Promise<PanelZone[]> => {
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`DELETE FROM panel_zones WHERE panel_id = $1`, [panelId]);
+    const rows: PanelZone[] = [];
+    for (const zone of zones) {
+      const result = await client.query<PanelZone>(
+        `
+        INSERT INTO panel_zones (panel_id, address_id, apartment_from, apartment_to, apartment_offset)
+        VALUES ($1, $2, $3, $4, $5)
+        RETURNING ${PANEL_ZONE_COLUMNS}
+        `,
+        [panelId, zone.addressId, zone.apartmentFrom, zone.apartmentTo, zone.apartmentOffset ?? 0]
+      );
+      rows.push(...result.rows);
+    }
+    await client.query("COMMIT");
+    return rows;
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+};
+
+/** Where the dialled apartment is read from on an incoming panel call. */
+export type ApartmentSource = "auto" | "exten" | "connected";
+
+/**
+ * Per-panel call settings (panel_settings row). Null fields fall back to env defaults.
+ */
+export type PanelSettings = {
+  ring_timeout_sec: number | null;
+  call_ttl_sec: number | null;
+  /** PJSIP allow list for temporary device endpoints. */
+  codecs: string | null;
+  apartment_source: ApartmentSource;
+  /** Added to the dialled number (panels dialling internal codes). */
+  apartment_offset: number;
+  /** Dialled code -> apartment; takes precedence over the offset. */
+  apartment_map: Record<string, string>;
+  /** Asterisk sound names played to the visitor on busy / noanswer / notpaid instead of the defaults. */
+  prompt_busy: string | null;
+  prompt_noanswer: string | null;
+  prompt_notpaid: string | null;
+  /** Seconds of visitor voice message recorded when nobody answers; null = off (noanswer prompt). */
+  voicemail_max_sec: number | null;
+};
+
+/** Settings of a panel without a panel_settings row. */
+export const DEFAULT_PANEL_SETTINGS: PanelSettings = {
+  ring_timeout_sec: null,
+  call_ttl_sec: null,
+  codecs: null,
+  apartment_source: "auto",
+  apartment_offset: 0,
+  apartment_map: {},
+  prompt_busy: null,
+  prompt_noanswer: null,
+  prompt_notpaid: null,
+  voicemail_max_sec: null,
+};
+
+const PANEL_SETTINGS_COLUMNS =
+  "ring_timeout_sec, call_ttl_sec, codecs, apartment_source, apartment_offset, apartment_map, prompt_busy, prompt_noanswer, prompt_notpaid, voicemail_max_sec";
+
+/**
+ * Load panel settings; defaults when the panel has none.
+ */
+export const getPanelSettings = async (panelId: number): Promise<PanelSettings> => {
+  const result = await pool.query<PanelSettings>(
+    `SELECT ${PANEL_SETTINGS_COLUMNS} FROM panel_settings WHERE panel_id = $1`,
+    [panelId]
+  );
+  return result.rows[0] ?? DEFAULT_PANEL_SETTINGS;
+};
+
+/**
+ * Create or update panel settings (undefined = keep, null = back to default).
+ * Caller checks that the panel exists.
+ */
+export const updatePanelSettings = async (
+  panelId: number,
+  params: {
+    ringTimeoutSec?: number | null;
+    callTtlSec?: number | null;
+    codecs?: string | null;
+    apartmentSource?: ApartmentSource | null;
+    apartmentOffset?: number | null;
+    apartmentMap?: Record<string, string> | null;
+    promptBusy?: string | null;
+    promptNoanswer?: string | null;
+    promptNotpaid?: string | null;
+    voicemailMaxSec?: number | null;
+  }
+): Promise<PanelSettings> => {
+  const defaults = DEFAULT_PANEL_SETTINGS;
+  const set = buildSetClause(
+    {
+      ring_timeout_sec: params.ringTimeoutSec,
+      call_ttl_sec: params.callTtlSec,
+      codecs: params.codecs,
+      apartment_source: params.apartmentSource === null ? defaults.apartment_source : params.apartmentSource,
+      apartment_offset: params.apartmentOffset === null ? defaults.apartment_offset : params.apartmentOffset,
+      apartment_map:
+        params.apartmentMap === undefined ? undefined : JSON.stringify(params.apartmentMap ?? defaults.apartment_map),
+      prompt_busy: params.promptBusy,
+      prompt_noanswer: params.promptNoanswer,
+      prompt_notpaid: params.promptNotpaid,
+      voicemail_max_sec: params.voicemailMaxSec,
+    },
+    2
+  );
+  await pool.query(`INSERT INTO panel_settings (panel_id) VALUES ($1) ON CONFLICT (panel_id) DO NOTHING`, [panelId]);
+  const result = await pool.query<PanelSettings>(
+    `
+    UPDATE panel_settings
+    SET ${set.sql ? `${set.sql}, ` : ""}updated_at = NOW()
+    WHERE panel_id = $1
+    RETURNING ${PANEL_SETTINGS_COLUMNS}
+    `,
+    [panelId, ...set.values]
+  );
+  const row = result.rows[0];
+  if (!row) throw new Error("Failed to update panel settings");
+  return row;
+};
+
 export type UserByAddressApartment = {
   id: number;
   phone: string;
+  /** is_active and paid_until not in the past (NULL paid_until = no end date). */
+  is_subscribed: boolean;
+  /** Phone unanswered calls are forwarded to (7XXXXXXXXXX) or null. */
+  forward_phone: string | null;
 };
 
 /**
- * Lookup user by address and apartment pair.
- * Returns null when no matching user is found.
+ * Lookup all residents linked to address and apartment pair (whole family rings).
+ * Returns empty list when no matching user is found.
  */
-export const getUser = async (
+export const getUsers = async (
   addressId: number,
   apartment: string
-): Promise<UserByAddressApartment | null> => {
+): Promise<UserByAddressApartment[]> => {
   const result = await pool.query<UserByAddressApartment>(
     `
-    SELECT id, phone
+    SELECT
+      id,
+      phone,
+      (COALESCE(is_active, FALSE) AND (paid_until IS NULL OR paid_until >= CURRENT_DATE)) AS is_subscribed,
+      forward_phone
     FROM users
     WHERE address_id = $1 AND apartment = $2
-    LIMIT 1
+    ORDER BY id
     `,
     [addressId, apartment]
   );
+  return result.rows;
+};
+
+export type UserBinding = {
+  id: number;
+  address_id: number | null;
+  apartment: string | null;
+};
+
+/**
+ * Load address/apartment binding of a user.
+ * Returns null when user does not exist.
+ */
+export const getUserBinding = async (userId: number): Promise<UserBinding | null> => {
+  const result = await pool.query<UserBinding>(
+    `
+    SELECT id, address_id::int AS address_id, apartment
+    FROM users
+    WHERE id = $1
+    LIMIT 1
+    `,
+    [userId]
+  );
+  return result.rows[0] ?? null;
+};
+
+/** Whether the user is_active and paid_until is not in the past (NULL paid_until = no end date). */
+export const isUserSubscribed = async (userId: number): Promise<boolean> => {
+  const result = await pool.query<{ is_subscribed: boolean }>(
+    `
+    SELECT (COALESCE(is_active, FALSE) AND (paid_until IS NULL OR paid_until >= CURRENT_DATE)) AS is_subscribed
+    FROM users
+    WHERE id = $1
+    `,
+    [userId]
+  );
+  return result.rows[0]?.is_subscribed ?? false;
+};
+
+export type UserBindingRecord = UserBinding & {
+  phone: string | null;
+  is_active: boolean;
+  /** YYYY-MM-DD or null (no end date). */
+  paid_until: string | null;
+};
+
+const USER_BINDING_COLUMNS = `id, phone, address_id::int AS address_id, apartment,
+  COALESCE(is_active, FALSE) AS is_active, to_char(paid_until, 'YYYY-MM-DD') AS paid_until`;
+
+/**
+ * List users that are bound to an address (optionally only one address).
+ */
+export const listUserBindings = async (addressId?: number): Promise<UserBindingRecord[]> => {
+  const result = await pool.query<UserBindingRecord>(
+    `
+    SELECT ${USER_BINDING_COLUMNS}
+    FROM users
+    WHERE address_id IS NOT NULL AND ($1::bigint IS NULL OR address_id = $1)
+    ORDER BY address_id, apartment, id
+    `,
+    [addressId ?? null]
+  );
+  return result.rows;
+};
+
+/**
+ * Bind user to address and apartment (replaces previous binding).
+ * Returns null when user does not exist.
+ */
+export const setUserBinding = async (
+  userId: number,
+  addressId: number,
+  apartment: string
+): Promise<UserBindingRecord | null> => {
+  const result = await pool.query<UserBindingRecord>(
+    `
+    UPDATE users
+    SET address_id = $2, apartment = $3, updated_at = NOW()
+    WHERE id = $1
+    RETURNING ${USER_BINDING_COLUMNS}
+    `,
+    [userId, addressId, apartment]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Remove user's address/apartment binding. Returns false when user does not exist.
+ */
+export const clearUserBinding = async (userId: number): Promise<boolean> => {
+  const result = await pool.query(
+    `UPDATE users SET address_id = NULL, apartment = NULL, updated_at = NOW() WHERE id = $1`,
+    [userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+};
+
+/**
+ * Find user with binding by canonical phone (7XXXXXXXXXX).
+ * Returns null when no user has verified this phone yet.
+ */
+export const findUserByPhone = async (phone: string): Promise<UserBindingRecord | null> => {
+  const result = await pool.query<UserBindingRecord>(
+    `SELECT ${USER_BINDING_COLUMNS} FROM users WHERE phone = $1 LIMIT 1`,
+    [phone]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Phone (7XXXXXXXXXX) the user's unanswered panel calls are forwarded to; null when off.
+ * Returns undefined when user does not exist.
+ */
+export const getForwardPhone = async (userId: number): Promise<string | null | undefined> => {
+  const result = await pool.query<{ forward_phone: string | null }>(
+    `SELECT forward_phone FROM users WHERE id = $1`,
+    [userId]
+  );
+  return result.rows[0]?.forward_phone;
+};
+
+/**
+ * Set (or clear with null) the user's forward phone. Returns false when user does not exist.
+ */
+export const setForwardPhone = async (userId: number, phone: string | null): Promise<boolean> => {
+  const result = await pool.query(`UPDATE users SET forward_phone = $2, updated_at = NOW() WHERE id = $1`, [
+    userId,
+    phone,
+  ]);
+  return (result.rowCount ?? 0) > 0;
+};
+
+/** Quiet time window in the resident's time zone ("HH:MM"; from > to spans midnight). */
+export type DndWindow = {
+  from: string;
+  to: string;
+  /** ISO weekdays (1 = Monday) the window starts on; omitted = every day. */
+  days?: number[];
+};
+
+/** Do-not-disturb settings of a resident (user_dnd row). */
+export type DndSettings = {
+  user_id: number;
+  timezone: string;
+  windows: DndWindow[];
+  /** ISO timestamp or null. */
+  dnd_until: string | null;
+  muted_panel_ids: number[];
+};
+
+const DND_COLUMNS = `user_id, timezone, windows, ${isoColumn("dnd_until")}, muted_panel_ids::int[] AS muted_panel_ids`;
+
+/**
+ * DND settings of a user; null when the user never set any (always rung).
+ */
+export const getDndSettings = async (userId: number): Promise<DndSettings | null> => {
+  const result = await pool.query<DndSettings>(`SELECT ${DND_COLUMNS} FROM user_dnd WHERE user_id = $1`, [userId]);
+  return result.rows[0] ?? null;
+};
+
+/**
+ * DND settings of the residents rung by a call (users without settings are left out).
+ */
+export const getDndSettingsForUsers = async (userIds: number[]): Promise<DndSettings[]> => {
+  if (userIds.length === 0) return [];
+  const result = await pool.query<DndSettings>(`SELECT ${DND_COLUMNS} FROM user_dnd WHERE user_id = ANY($1::int[])`, [
+    userIds,
+  ]);
+  return result.rows;
+};
+
+/**
+ * Replace DND settings of a user. Caller checks that the user exists.
+ */
+export const setDndSettings = async (
+  userId: number,
+  params: { timezone: string; windows: DndWindow[]; until: string | null; mutedPanelIds: number[] }
+): Promise<DndSettings> => {
+  const result = await pool.query<DndSettings>(
+    `
+    INSERT INTO user_dnd (user_id, timezone, windows, dnd_until, muted_panel_ids, updated_at)
+    VALUES ($1, $2, $3::jsonb, $4::timestamptz, $5::bigint[], NOW())
+    ON CONFLICT (user_id) DO UPDATE
+    SET timezone = EXCLUDED.timezone,
+        windows = EXCLUDED.windows,
+        dnd_until = EXCLUDED.dnd_until,
+        muted_panel_ids = EXCLUDED.muted_panel_ids,
+        updated_at = NOW()
+    RETURNING ${DND_COLUMNS}
+    `,
+    [userId, params.timezone, JSON.stringify(params.windows), params.until, params.mutedPanelIds]
+  );
+  const row = result.rows[0];
+  if (!row) throw new Error("Failed to save DND settings");
+  return row;
+};
+
+/**
+ * Remove DND settings of a user (always rung again).
+ */
+export const clearDndSettings = async (userId: number) => {
+  await pool.query(`DELETE FROM user_dnd WHERE user_id = $1`, [userId]);
+};
+
+export type UserSubscription = {
+  id: number;
+  is_active: boolean;
+  /** YYYY-MM-DD or null (no end date). */
+  paid_until: string | null;
+};
+
+/**
+ * Update user subscription: extend paid_until by days (from today or current paid_until,
+ * whichever is later), or set it explicitly; optionally toggle is_active.
+ * Returns null when user does not exist.
+ */
+export const updateUserSubscription = async (
+  userId: number,
+  params: { extendDays?: number; paidUntil?: string | null; isActive?: boolean }
+): Promise<UserSubscription | null> => {
+  const { extendDays, paidUntil, isActive } = params;
+  const result = await pool.query<UserSubscription>(
+    `
+    UPDATE users
+    SET paid_until = CASE
+          WHEN $2::int IS NOT NULL THEN GREATEST(COALESCE(paid_until, CURRENT_DATE - 1), CURRENT_DATE - 1) + $2::int
+          WHEN $3::boolean THEN $4::date
+          ELSE paid_until
+        END,
+        is_active = COALESCE($5::boolean, is_active),
+        updated_at = NOW()
+    WHERE id = $1
+    RETURNING id, COALESCE(is_active, FALSE) AS is_active, to_char(paid_until, 'YYYY-MM-DD') AS paid_until
+    `,
+    [userId, extendDays ?? null, paidUntil !== undefined, paidUntil ?? null, isActive ?? null]
+  );
   return result.rows[0] ?? null;
 };
 
@@ -300,8 +818,32 @@ export const getPushTokens = async (userId: number | string) => {
   return result.rows.map((row: { push_token: string }) => row.push_token);
 };
 
+export type UserPushToken = {
+  userId: number;
+  pushToken: string;
+  platform: string;
+  deviceId: string | null;
+};
+
 /**
- * Remove push tokens that FCM reported as invalid (e.g. app uninstalled, token expired).
+ * Load push tokens of several users at once (incoming call fan-out).
+ */
+export const getPushTokensForUsers = async (userIds: number[]): Promise<UserPushToken[]> => {
+  if (userIds.length === 0) return [];
+  const result = await pool.query<UserPushToken>(
+    `
+    SELECT user_id AS "userId", push_token AS "pushToken", platform, device_id AS "deviceId"
+    FROM push_tokens
+    WHERE user_id = ANY($1::int[])
+    ORDER BY user_id, updated_at DESC
+    `,
+    [userIds]
+  );
+  return result.rows;
+};
+
+/**
+ * Remove push tokens that FCM / APNs reported as invalid (e.g. app uninstalled, token expired).
  */
 export const deletePushTokens = async (userId: number | string, tokens: string[]) => {
   if (tokens.length === 0) return;
@@ -311,6 +853,352 @@ export const deletePushTokens = async (userId: number | string, tokens: string[]
   );
 };
 
+/**
+ * Insert call history rows when incoming domophone call arrives (status 'pending'):
+ * one row per resident, or a single row without user when nobody is mapped.
+ * Idempotent by (callId, userId).
+ */
+export const createCallRecord = async (params: {
+  callId: string;
+  userIds: number[];
+  addressId: number | null;
+  address: string;
+  apartment: string | null;
+  /** 'dnd' rows are residents who were not rung; later status changes of the call skip them. */
+  status?: "pending" | "dnd";
+}) => {
+  const { callId, userIds, addressId, address, apartment, status = "pending" } = params;
+  const rowUserIds: (number | null)[] = userIds.length > 0 ? userIds : [null];
+  await pool.query(
+    `
+    INSERT INTO calls (call_id, user_id, status, address_id, address, apartment, started_at)
+    SELECT $1, u.user_id, $6, $3, $4, $5, NOW()
+    FROM UNNEST($2::int[]) AS u(user_id)
+    ON CONFLICT (call_id, user_id) DO NOTHING
+    `,
+    [callId, rowUserIds, addressId, address || null, apartment, status]
+  );
+};
+
+/**
+ * Move call history rows (all residents rung by the call) to a new status.
+ * 'accepted' also stamps answered_at (used for conversation duration).
+ */
+export const updateCallStatus = async (callId: string, status: CallHistoryStatus) => {
+  await pool.query(
+    `
+    UPDATE calls
+    SET status = $2,
+        answered_at = CASE WHEN $2 = 'accepted' THEN COALESCE(answered_at, NOW()) ELSE answered_at END
+    WHERE call_id = $1 AND status <> 'dnd'
+    `,
+    [callId, status]
+  );
+};
+
+/**
+ * Mark call as answered by one resident (in the app, or on their forward phone: 'forwarded');
+ * other residents' rows become 'answered_elsewhere'.
+ */
+export const markCallAnswered = async (callId: string, userId: number, status: "accepted" | "forwarded" = "accepted") => {
+  await pool.query(
+    `
+    UPDATE calls
+    SET status = CASE WHEN user_id = $2 THEN $3 ELSE 'answered_elsewhere' END,
+        answered_at = COALESCE(answered_at, NOW())
+    WHERE call_id = $1 AND status <> 'dnd'
+    `,
+    [callId, userId, status]
+  );
+};
+
+/**
+ * Stamp ended_at when domophone channel leaves Stasis.
+ * A call that was still pending at that moment was dropped by the caller.
+ */
+export const finishCallRecord = async (callId: string) => {
+  await pool.query(
+    `
+    UPDATE calls
+    SET ended_at = NOW(),
+        status = CASE WHEN status = 'pending' THEN 'caller_hung_up' ELSE status END
+    WHERE call_id = $1 AND ended_at IS NULL
+    `,
+    [callId]
+  );
+};
+
+export type CallHistoryItem = {
+  callId: string;
+  status: CallHistoryStatus;
+  addressId: number | null;
+  address: string | null;
+  apartment: string | null;
+  startedAt: Date;
+  answeredAt: Date | null;
+  endedAt: Date | null;
+  /** Conversation length for answered calls, ring length otherwise; null while call is in progress. */
+  durationSec: number | null;
+  doorOpened: boolean;
+  /** Panel snapshot storage key; the route turns it into a signed URL. */
+  previewKey: string | null;
+  /** Whether the visitor left a voice message (GET /calls/:callId/voicemail). */
+  hasVoicemail: boolean;
+  /** Whether the conversation was recorded and the recording is not deleted yet (GET /calls/:callId/recording). */
+  hasRecording: boolean;
+};
+
+/**
+ * Page of user's call history, newest first.
+ */
+export const getCallHistory = async (
+  userId: number,
+  limit: number,
+  offset: number
+): Promise<CallHistoryItem[]> => {
+  const result = await pool.query<CallHistoryItem>(
+    `
+    SELECT
+      call_id AS "callId",
+      status,
+      address_id::int AS "addressId",
+      address,
+      apartment,
+      started_at AS "startedAt",
+      answered_at AS "answeredAt",
+      ended_at AS "endedAt",
+      CASE WHEN ended_at IS NULL THEN NULL
+           ELSE EXTRACT(EPOCH FROM ended_at - COALESCE(answered_at, started_at))::int
+      END AS "durationSec",
+      COALESCE(door_opened, FALSE) AS "doorOpened",
+      preview_url AS "previewKey",
+      voicemail_key IS NOT NULL AS "hasVoicemail",
+      recording_key IS NOT NULL AND recording_stored_at IS NOT NULL AS "hasRecording"
+    FROM calls
+    WHERE user_id = $1
+    ORDER BY started_at DESC, id DESC
+    LIMIT $2 OFFSET $3
+    `,
+    [userId, limit, offset]
+  );
+  return result.rows;
+};
+
+/**
+ * Attach panel snapshot (storage key) to all history rows of the call.
+ */
+export const setCallPreview = async (callId: string, previewKey: string) => {
+  await pool.query(`UPDATE calls SET preview_url = $2 WHERE call_id = $1`, [callId, previewKey]);
+};
+
+/**
+ * Attach the visitor's voice message (storage key) to all history rows of the call.
+ */
+export const setCallVoicemail = async (callId: string, voicemailKey: string) => {
+  await pool.query(`UPDATE calls SET voicemail_key = $2 WHERE call_id = $1`, [callId, voicemailKey]);
+};
+
+/**
+ * Storage key of the call's voice message if the user was rung by that call, else null.
+ */
+export const getCallVoicemailKey = async (callId: string, userId: number): Promise<string | null> => {
+  const result = await pool.query<{ voicemail_key: string | null }>(
+    `SELECT voicemail_key FROM calls WHERE call_id = $1 AND user_id = $2`,
+    [callId, userId]
+  );
+  return result.rows[0]?.voicemail_key ?? null;
+};
+
+/**
+ * Recording of the call started: attach its storage key to the history rows of the residents rung by the call;
+ * the recording is deleted retentionDays from now. It is not offered until setCallRecordingStored; a file
+ * that never arrives is forgotten by the retention purge.
+ */
+export const setCallRecording = async (callId: string, params: { recordingKey: string; retentionDays: number }) => {
+  await pool.query(
+    `
+    UPDATE calls
+    SET recording_key = $2,
+        recording_expires_at = NOW() + make_interval(days => $3)
+    WHERE call_id = $1 AND status <> 'dnd'
+    `,
+    [callId, params.recordingKey, params.retentionDays]
+  );
+};
+
+/**
+ * File of the call's recording is stored: offer it for playback and remember its length.
+ */
+export const setCallRecordingStored = async (callId: string, durationSec: number | null) => {
+  await pool.query(
+    `
+    UPDATE calls
+    SET recording_stored_at = NOW(),
+        recording_duration_sec = $2
+    WHERE call_id = $1 AND recording_key IS NOT NULL
+    `,
+    [callId, durationSec]
+  );
+};
+
+/**
+ * Storage key of the call's recording, if any. With userId only when that user was rung by the call
+ * (admins pass null). stored: only once the file is stored (playback).
+ */
+export const getCallRecordingKey = async (
+  callId: string,
+  userId: number | null,
+  { stored = true }: { stored?: boolean } = {}
+): Promise<string | null> => {
+  const result = await pool.query<{ recording_key: string }>(
+    `
+    SELECT recording_key
+    FROM calls
+    WHERE call_id = $1 AND status <> 'dnd' AND recording_key IS NOT NULL
+      AND ($2::int IS NULL OR user_id = $2) AND (NOT $3 OR recording_stored_at IS NOT NULL)
+    LIMIT 1
+    `,
+    [callId, userId, stored]
+  );
+  return result.rows[0]?.recording_key ?? null;
+};
+
+/**
+ * Recordings past their retention (one key per call), oldest first.
+ */
+export const listExpiredCallRecordings = async (limit: number): Promise<string[]> => {
+  const result = await pool.query<{ recording_key: string }>(
+    `
+    SELECT recording_key
+    FROM calls
+    WHERE recording_key IS NOT NULL AND recording_expires_at <= NOW()
+    GROUP BY recording_key
+    ORDER BY MIN(recording_expires_at)
+    LIMIT $1
+    `,
+    [limit]
+  );
+  return result.rows.map((row) => row.recording_key);
+};
+
+/**
+ * Forget a deleted recording on every history row that points to it (duration stays for statistics).
+ */
+export const clearCallRecording = async (recordingKey: string) => {
+  await pool.query(
+    `
+    UPDATE calls
+    SET recording_key = NULL,
+        recording_stored_at = NULL,
+        recording_expires_at = NULL
+    WHERE recording_key = $1
+    `,
+    [recordingKey]
+  );
+};
+
+/**
+ * Mark that the door was opened during this call.
+ */
+export const markCallDoorOpened = async (callId: string) => {
+  await pool.query(`UPDATE calls SET door_opened = TRUE WHERE call_id = $1`, [callId]);
+};
+
+export type GuestPassRecord = {
+  id: number;
+  user_id: number;
+  panel_id: number;
+  label: string | null;
+  /** ISO timestamps. */
+  valid_from: string;
+  valid_until: string;
+  max_uses: number;
+  uses: number;
+  revoked_at: string | null;
+};
+
+const GUEST_PASS_COLUMNS = [
+  "id::int AS id, user_id, panel_id::int AS panel_id, label",
+  isoColumn("valid_from"),
+  isoColumn("valid_until"),
+  "max_uses, uses",
+  isoColumn("revoked_at"),
+].join(", ");
+
+/**
+ * Create a guest pass of a resident for a panel. Caller checks the resident may open this panel.
+ */
+export const createGuestPass = async (params: {
+  userId: number;
+  panelId: number;
+  label: string | null;
+  validFrom: string;
+  validUntil: string;
+  maxUses: number;
+}): Promise<GuestPassRecord> => {
+  const { userId, panelId, label, validFrom, validUntil, maxUses } = params;
+  const result = await pool.query<GuestPassRecord>(
+    `
+    INSERT INTO guest_passes (user_id, panel_id, label, valid_from, valid_until, max_uses)
+    VALUES ($1, $2, $3, $4::timestamptz, $5::timestamptz, $6)
+    RETURNING ${GUEST_PASS_COLUMNS}
+    `,
+    [userId, panelId, label, validFrom, validUntil, maxUses]
+  );
+  const row = result.rows[0];
+  if (!row) throw new Error("Failed to create guest pass");
+  return row;
+};
+
+/**
+ * Guest passes of a resident, newest first.
+ */
+export const listGuestPasses = async (userId: number): Promise<GuestPassRecord[]> => {
+  const result = await pool.query<GuestPassRecord>(
+    `SELECT ${GUEST_PASS_COLUMNS} FROM guest_passes WHERE user_id = $1 ORDER BY created_at DESC, id DESC LIMIT 100`,
+    [userId]
+  );
+  return result.rows;
+};
+
+/**
+ * Revoke a resident's guest pass. Returns false when the resident has no such pass.
+ */
+export const revokeGuestPass = async (userId: number, passId: number): Promise<boolean> => {
+  const result = await pool.query(
+    `UPDATE guest_passes SET revoked_at = COALESCE(revoked_at, NOW()) WHERE id = $1 AND user_id = $2`,
+    [passId, userId]
+  );
+  return (result.rowCount ?? 0) > 0;
+};
+
+/**
+ * Take one use of a pass if it is valid right now (not revoked, inside its window, uses left).
+ * Returns the pass after the increment, or null when it cannot be used.
+ */
+export const claimGuestPassUse = async (passId: number): Promise<GuestPassRecord | null> => {
+  const result = await pool.query<GuestPassRecord>(
+    `
+    UPDATE guest_passes
+    SET uses = uses + 1
+    WHERE id = $1 AND revoked_at IS NULL AND NOW() >= valid_from AND NOW() < valid_until AND uses < max_uses
+    RETURNING ${GUEST_PASS_COLUMNS}
+    `,
+    [passId]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Record an open attempt with a pass; a failed one gives the use back.
+ */
+export const recordGuestPassUse = async (passId: number, ip: string, result: "opened" | "failed") => {
+  await pool.query(`INSERT INTO guest_pass_uses (pass_id, ip, result) VALUES ($1, $2, $3)`, [passId, ip, result]);
+  if (result === "failed") {
+    await pool.query(`UPDATE guest_passes SET uses = GREATEST(uses - 1, 0) WHERE id = $1`, [passId]);
+  }
+};
+
 /**
  * Create a temporary PJSIP endpoint in realtime tables.
  * This endpoint is removed after the call ends.
@@ -321,8 +1209,10 @@ export const createTempSipEndpoint = async (params: {
   password: string;
   context: string;
   templateId?: string;
+  /** PJSIP allow list (panel settings); default audio plus H.264 video. */
+  codecs?: string;
 }) => {
-  const { id, username, password, context, templateId = "tpl_client" } = params;
+  const { id, username, password, context, templateId = "tpl_client", codecs = DEFAULT_CODECS } = params;
   await pool.query(
     `
     INSERT INTO ps_aors (id, max_contacts)
@@ -345,12 +1235,12 @@ export const createTempSipEndpoint = async (params: {
       id, transport, aors, auth, context, templates, disallow, allow,
       direct_media, force_rport, rewrite_contact, rtp_symmetric, ice_support
     ) VALUES (
-      $1, 'transport-udp', $1, $1, $2, $3, 'all', 'ulaw,alaw,h264',
+      $1, 'transport-udp', $1, $1, $2, $3, 'all', $4,
       'no', 'yes', 'yes', 'yes', 'yes'
     )
     ON CONFLICT (id) DO UPDATE SET context = EXCLUDED.context, templates = EXCLUDED.templates, allow = EXCLUDED.allow, ice_support = EXCLUDED.ice_support;
     `,
-    [id, context, templateId]
+    [id, context, templateId, codecs]
   );
 };
 
@@ -368,11 +1258,131 @@ export const deleteTempSipEndpoint = async (id: string) => {
  */
 export const getTempSipEndpoints = async () => {
   const result = await pool.query(
-    `SELECT id FROM ps_endpoints WHERE id LIKE 'inc_%' OR id LIKE 'out_%'`
+    `SELECT id FROM ps_endpoints WHERE id LIKE 'inc_%' OR id LIKE 'out_%' OR id LIKE 'live_%'`
   );
   return result.rows.map((row: { id: string }) => row.id);
 };
 
+export type DomophoneEndpointRecord = {
+  id: string;
+  username: string | null;
+  context: string | null;
+  allow: string | null;
+};
+
+const DOMOPHONE_TEMPLATE_ID = "tpl_domophone";
+const DOMOPHONE_CONTEXT = "from-domophone";
+
+/**
+ * Create domophone PJSIP endpoint in realtime tables (ps_aors / ps_auths / ps_endpoints).
+ * Same rows as deploy/ADD_DOMOPHONE.md; Asterisk picks them up on next lookup.
+ */
+export const createDomophoneEndpoint = async (params: {
+  id: string;
+  username: string;
+  password: string;
+}): Promise<DomophoneEndpointRecord> => {
+  const { id, username, password } = params;
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    await client.query(`INSERT INTO ps_aors (id, max_contacts) VALUES ($1, 1)`, [id]);
+    await client.query(
+      `INSERT INTO ps_auths (id, auth_type, username, password) VALUES ($1, 'userpass', $2, $3)`,
+      [id, username, password]
+    );
+    await client.query(
+      `
+      INSERT INTO ps_endpoints (
+        id, transport, aors, auth, context, templates, disallow, allow,
+        direct_media, force_rport, rewrite_contact, rtp_symmetric
+      ) VALUES (
+        $1, 'transport-udp', $1, $1, $2, $3, 'all', 'ulaw,alaw,h264',
+        'no', 'yes', 'yes', 'yes'
+      )
+      `,
+      [id, DOMOPHONE_CONTEXT, DOMOPHONE_TEMPLATE_ID]
+    );
+    await client.query("COMMIT");
+  } catch (error) {
+    await client.query("ROLLBACK");
+    throw error;
+  } finally {
+    client.release();
+  }
+  return { id, username, context: DOMOPHONE_CONTEXT, allow: "ulaw,alaw,h264" };
+};
+
+/**
+ * List domophone endpoints (endpoints built from tpl_domophone). Passwords are not returned.
+ */
+export const listDomophoneEndpoints = async (): Promise<DomophoneEndpointRecord[]> => {
+  const result = await pool.query<DomophoneEndpointRecord>(
+    `
+    SELECT e.id, a.username, e.context, e.allow
+    FROM ps_endpoints e
+    LEFT JOIN ps_auths a ON a.id = e.auth
+    WHERE e.templates = $1
+    ORDER BY e.id
+    `,
+    [DOMOPHONE_TEMPLATE_ID]
+  );
+  return result.rows;
+};
+
+/**
+ * Update domophone SIP credentials. Returns null when endpoint does not exist.
+ */
+export const updateDomophoneEndpoint = async (
+  id: string,
+  params: { username?: string; password?: string }
+): Promise<DomophoneEndpointRecord | null> => {
+  const existing = await pool.query<{ auth: string | null }>(
+    `SELECT auth FROM ps_endpoints WHERE id = $1 AND templates = $2`,
+    [id, DOMOPHONE_TEMPLATE_ID]
+  );
+  const endpoint = existing.rows[0];
+  if (!endpoint) return null;
+
+  const set = buildSetClause(params, 2);
+  if (set.sql && endpoint.auth) {
+    await pool.query(`UPDATE ps_auths SET ${set.sql} WHERE id = $1`, [endpoint.auth, ...set.values]);
+  }
+  const result = await pool.query<DomophoneEndpointRecord>(
+    `
+    SELECT e.id, a.username, e.context, e.allow
+    FROM ps_endpoints e
+    LEFT JOIN ps_auths a ON a.id = e.auth
+    WHERE e.id = $1
+    `,
+    [id]
+  );
+  return result.rows[0] ?? null;
+};
+
+/**
+ * Whether a panel calls from this PJSIP endpoint (panels.endpoint_id has no foreign key to ps_endpoints).
+ */
+export const isPanelEndpoint = async (endpointId: string): Promise<boolean> => {
+  const result = await pool.query(`SELECT 1 FROM panels WHERE endpoint_id = $1 LIMIT 1`, [endpointId]);
+  return (result.rowCount ?? 0) > 0;
+};
+
+/**
+ * Remove domophone endpoint from realtime tables. Returns false when it does not exist.
+ * Caller checks isPanelEndpoint first.
+ */
+export const deleteDomophoneEndpoint = async (id: string): Promise<boolean> => {
+  const result = await pool.query(`DELETE FROM ps_endpoints WHERE id = $1 AND templates = $2`, [
+    id,
+    DOMOPHONE_TEMPLATE_ID,
+  ]);
+  if ((result.rowCount ?? 0) === 0) return false;
+  await pool.query(`DELETE FROM ps_auths WHERE id = $1`, [id]);
+  await pool.query(`DELETE FROM ps_aors WHERE id = $1`, [id]);
+  return true;
+};
+
 /**
  * Ensure default PJSIP endpoint templates exist.
  */
@@ -455,3 +1465,17 @@ export const getOrCreateUser = async (
 };
 
 export const db = pool;
+
+/**
+ * Run a trivial query through the pool (readiness check).
+ */
+export const pingDatabase = async () => {
+  await pool.query("SELECT 1");
+};
+
+/**
+ * Close the pool (shutdown); waits for checked-out clients to be released.
+ */
+export const closeDatabase = async () => {
+  await pool.end();
+};
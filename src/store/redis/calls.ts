@@ -20,15 +20,86 @@ export const getCallData = async <T>(callId: string) => {
 };
 
 /**
- * Derive callId by temporary endpoint id (inc_<callId> or out_<callId>).
+ * List ids of all calls that still have call data (SCAN, safe on a live server).
+ */
+export const listCallIds = async (): Promise<string[]> => {
+  const ids: string[] = [];
+  let cursor = "0";
+  do {
+    const [next, keys] = await redisClient.scan(cursor, "MATCH", "call:*", "COUNT", 100);
+    cursor = next;
+    for (const key of keys) {
+      const callId = key.slice("call:".length);
+      // call:<callId>:legs and other per-call keys are not call data.
+      if (!callId.includes(":")) ids.push(callId);
+    }
+  } while (cursor !== "0");
+  return ids;
+};
+
+/** Replace call data only if it still holds the value the caller read (optimistic lock); keeps the TTL. */
+const COMPARE_AND_SET_SCRIPT = `
+if redis.call("GET", KEYS[1]) ~= ARGV[1] then
+  return 0
+end
+local ttl = redis.call("PTTL", KEYS[1])
+if ttl > 0 then
+  redis.call("SET", KEYS[1], ARGV[2], "PX", ttl)
+else
+  redis.call("SET", KEYS[1], ARGV[2])
+end
+return 1
+`;
+const UPDATE_MAX_ATTEMPTS = 5;
+
+/**
+ * Atomically change call data: update gets the current value and returns the new one,
+ * or null to leave it as is; the key keeps its TTL. Concurrent writers are detected and update re-runs on fresh data.
+ * Returns previous and stored value, or null when the call is missing or update declined.
+ */
+export const updateCallData = async <T extends object>(
+  callId: string,
+  update: (current: T) => T | null
+): Promise<{ previous: T; next: T } | null> => {
+  const key = `call:${callId}`;
+  for (let attempt = 0; attempt < UPDATE_MAX_ATTEMPTS; attempt++) {
+    const raw = await redisClient.get(key);
+    if (!raw) return null;
+    const previous = JSON.parse(raw) as T;
+    const next = update(previous);
+    if (!next) return null;
+    const stored = await redisClient.eval(COMPARE_AND_SET_SCRIPT, 1, key, raw, JSON.stringify(next));
+    if (stored === 1) return { previous, next };
+  }
+  throw new Error(`Call data of ${callId} keeps changing concurrently`);
+};
+
+/**
+ * Derive callId by temporary endpoint id (inc_<callId>_<n>, inc_<callId> or out_<callId>).
  */
 export const getCallIdByEndpointId = (endpointId: string): string | null => {
   if (endpointId.startsWith("inc_") || endpointId.startsWith("out_")) {
-    return endpointId.slice(4);
+    return endpointId.slice(4).replace(/_\d+$/, "");
   }
   return null;
 };
 
+/**
+ * Remember channel originated to a resident device (ringing leg) for later hangup.
+ */
+export const addCallLeg = async (callId: string, channelId: string, ttlSec: number) => {
+  const key = `call:${callId}:legs`;
+  await redisClient.sadd(key, channelId);
+  await redisClient.expire(key, ttlSec);
+};
+
+/**
+ * List channels originated to resident devices for this call.
+ */
+export const getCallLegs = async (callId: string): Promise<string[]> => {
+  return redisClient.smembers(`call:${callId}:legs`);
+};
+
 /**
  * Store temporary endpoint session mapping with TTL.
  */
@@ -72,36 +143,6 @@ export const getChannelSession = async <T>(channelId: string) => {
   return value ? (JSON.parse(value) as T) : null;
 };
 
-/**
- * Store pending originate request for endpoint.
- * When endpoint becomes online, originate will be triggered.
- */
-export const setPendingOriginate = async (
-  endpointId: string,
-  payload: { bridgeId: string; channelId: string },
-  ttlSec: number
-) => {
-  const key = `originate:${endpointId}`;
-  await redisClient.set(key, JSON.stringify(payload), "EX", ttlSec);
-};
-
-/**
- * Load pending originate request.
- */
-export const getPendingOriginate = async <T>(endpointId: string) => {
-  const key = `originate:${endpointId}`;
-  const value = await redisClient.get(key);
-  return value ? (JSON.parse(value) as T) : null;
-};
-
-/**
- * Remove pending originate after it's been processed.
- */
-export const deletePendingOriginate = async (endpointId: string) => {
-  const key = `originate:${endpointId}`;
-  await redisClient.del(key);
-};
-
 /**
  * Active incoming call from a panel (domophone). Key: incoming_panel:{panelId} -> callId.
  * Sets only if key does not exist (atomic "claim"). Returns true if we claimed the panel, false if another call already has it.
@@ -19,3 +19,17 @@ export const redisClient = createRedis();
  * request wait behind each BLPOP (multi-second tail latency in practice).
  */
 export const redisBlockingClient = createRedis();
+
+/**
+ * PING the shared client (readiness check).
+ */
+export const pingRedis = async () => {
+  await redisClient.ping();
+};
+
+/**
+ * Close both connections (shutdown), waiting for queued commands to finish.
+ */
+export const closeRedis = async () => {
+  await Promise.all([redisClient.quit(), redisBlockingClient.quit()]);
+};
@@ -1,26 +1,57 @@
-export { redisClient } from "./client";
+export { redisClient, closeRedis, pingRedis } from "./client";
 
 export {
   setCallData,
   getCallData,
+  updateCallData,
+  listCallIds,
   getCallIdByEndpointId,
+  addCallLeg,
+  getCallLegs,
   setEndpointSession,
   getEndpointSession,
   setChannelSession,
   getChannelSession,
-  setPendingOriginate,
-  getPendingOriginate,
-  deletePendingOriginate,
   setActiveIncomingFromPanel,
   getActiveIncomingFromPanel,
   clearActiveIncomingFromPanel,
 } from "./calls";
 
+export {
+  setPendingOriginate,
+  getPendingOriginate,
+  claimPendingOriginate,
+  releasePendingOriginate,
+  deletePendingOriginate,
+  deletePendingOriginates,
+  getDueOriginates,
+  getNextOriginateAt,
+} from "./originate";
+
+export type { PendingOriginate } from "./originate";
+
+export {
+  setLiveView,
+  getLiveView,
+  claimLiveViewViewer,
+  updateLiveView,
+  deleteLiveView,
+  claimLiveViewPanel,
+  clearLiveViewPanel,
+} from "./liveView";
+
+export type { LiveView } from "./liveView";
+
+export { setAuthSession, getAuthSession, deleteAuthSession } from "./sessions";
+
+export type { AuthSession } from "./sessions";
+
 export { setOtp, getOtp, deleteOtp } from "./otp/codes";
 
 export {
   enqueueOtpCall,
   isOtpCallQueued,
+  getOtpQueueLength,
   setOtpChannel,
   getOtpChannel,
   deleteOtpChannel,
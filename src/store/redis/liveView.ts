@@ -0,0 +1,85 @@
+import { redisClient } from "./client";
+
+/** Live view of a panel camera (hash liveview:<id>); channel and bridge ids appear as it is set up. */
+export type LiveView = {
+  userId: number;
+  panelId: number;
+  /** PJSIP endpoint of the panel (originated once the viewer joins). */
+  panelEndpointId: string;
+  /** Temporary endpoint of the viewer (live_<id>). */
+  endpointId: string;
+  viewerChannelId?: string;
+  panelChannelId?: string;
+  bridgeId?: string;
+};
+
+const getLiveViewKey = (liveViewId: string) => `liveview:${liveViewId}`;
+const getPanelKey = (panelId: number) => `liveview_panel:${panelId}`;
+
+/**
+ * Store a new live view with TTL (time to join plus the longest session).
+ */
+export const setLiveView = async (liveViewId: string, liveView: LiveView, ttlSec: number) => {
+  const { userId, panelId, panelEndpointId, endpointId } = liveView;
+  await redisClient
+    .multi()
+    .hset(getLiveViewKey(liveViewId), { userId, panelId, panelEndpointId, endpointId })
+    .expire(getLiveViewKey(liveViewId), ttlSec)
+    .exec();
+};
+
+/**
+ * Load a live view; null when it ended or expired.
+ */
+export const getLiveView = async (liveViewId: string): Promise<LiveView | null> => {
+  const raw = await redisClient.hgetall(getLiveViewKey(liveViewId));
+  if (!raw.endpointId || !raw.panelEndpointId) return null;
+  return {
+    userId: Number(raw.userId),
+    panelId: Number(raw.panelId),
+    panelEndpointId: raw.panelEndpointId,
+    endpointId: raw.endpointId,
+    ...(raw.viewerChannelId ? { viewerChannelId: raw.viewerChannelId } : {}),
+    ...(raw.panelChannelId ? { panelChannelId: raw.panelChannelId } : {}),
+    ...(raw.bridgeId ? { bridgeId: raw.bridgeId } : {}),
+  };
+};
+
+/**
+ * Take the viewer slot of a live view for the channel that dialled in. False when the live view is gone
+ * or another channel already joined it.
+ */
+export const claimLiveViewViewer = async (liveViewId: string, channelId: string): Promise<boolean> => {
+  const key = getLiveViewKey(liveViewId);
+  if ((await redisClient.exists(key)) === 0) return false;
+  return (await redisClient.hsetnx(key, "viewerChannelId", channelId)) === 1;
+};
+
+/**
+ * Remember the bridge / panel channel of a live view (keeps its TTL).
+ */
+export const updateLiveView = async (liveViewId: string, fields: Pick<LiveView, "bridgeId" | "panelChannelId">) => {
+  await redisClient.hset(getLiveViewKey(liveViewId), fields);
+};
+
+/**
+ * Drop a live view. True only for the caller that actually removed it (ends it once).
+ */
+export const deleteLiveView = async (liveViewId: string): Promise<boolean> => {
+  return (await redisClient.del(getLiveViewKey(liveViewId))) === 1;
+};
+
+/**
+ * One live view per panel at a time. Sets only if no other live view holds the panel.
+ */
+export const claimLiveViewPanel = async (panelId: number, liveViewId: string, ttlSec: number): Promise<boolean> => {
+  const result = await redisClient.set(getPanelKey(panelId), liveViewId, "EX", ttlSec, "NX");
+  return result === "OK";
+};
+
+/**
+ * Release the panel's live view lock.
+ */
+export const clearLiveViewPanel = async (panelId: number) => {
+  await redisClient.del(getPanelKey(panelId));
+};
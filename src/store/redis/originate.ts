@@ -0,0 +1,147 @@
+import { redisClient } from "./client";
+
+/** Originate waiting for a resident device endpoint to register. */
+export type PendingOriginate = {
+  callId: string;
+  bridgeId: string;
+  channelId: string;
+  /** Call TTL of the panel; the originated leg is remembered that long (env.callTokenTtlSec when absent). */
+  ttlSec?: number;
+};
+
+/** Sorted set: endpointId -> time (ms) of the next originate attempt. */
+const ORIGINATE_SCHEDULE_KEY = "originate:schedule";
+
+const getPendingKey = (endpointId: string) => `originate:${endpointId}`;
+const getClaimKey = (endpointId: string) => `originate:${endpointId}:claim`;
+
+/**
+ * Claim the pending originate for one attempt. Atomic: while the claim lease is held nobody else
+ * originates this endpoint; the schedule entry is pushed past the lease so it is not picked again.
+ * Missing pending (expired / cancelled) drops the schedule entry.
+ */
+const CLAIM_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  redis.call("ZREM", KEYS[3], ARGV[3])
+  return false
+end
+redis.call("ZADD", KEYS[3], ARGV[4], ARGV[3])
+if not redis.call("SET", KEYS[2], ARGV[1], "NX", "PX", ARGV[2]) then
+  return false
+end
+return redis.call("GET", KEYS[1])
+`;
+
+/**
+ * Release our claim after a failed attempt and schedule a retry (while the pending originate still exists).
+ */
+const RELEASE_SCRIPT = `
+if redis.call("GET", KEYS[2]) == ARGV[1] then
+  redis.call("DEL", KEYS[2])
+end
+if redis.call("EXISTS", KEYS[1]) == 1 then
+  redis.call("ZADD", KEYS[3], ARGV[3], ARGV[2])
+else
+  redis.call("ZREM", KEYS[3], ARGV[2])
+end
+return 1
+`;
+
+/**
+ * Store pending originate for endpoint and schedule the first attempt.
+ * ttlSec is the ring deadline: after it the originate is dropped and never retried.
+ */
+export const setPendingOriginate = async (
+  endpointId: string,
+  payload: PendingOriginate,
+  ttlSec: number,
+  firstAttemptAtMs: number
+) => {
+  await redisClient
+    .multi()
+    .set(getPendingKey(endpointId), JSON.stringify(payload), "EX", ttlSec)
+    .zadd(ORIGINATE_SCHEDULE_KEY, firstAttemptAtMs, endpointId)
+    .exec();
+};
+
+/**
+ * Load pending originate request.
+ */
+export const getPendingOriginate = async (endpointId: string): Promise<PendingOriginate | null> => {
+  const value = await redisClient.get(getPendingKey(endpointId));
+  return value ? (JSON.parse(value) as PendingOriginate) : null;
+};
+
+/**
+ * Try to claim pending originate for one attempt (lease leaseMs).
+ * Returns null when nothing is pending or another attempt holds the claim.
+ */
+export const claimPendingOriginate = async (
+  endpointId: string,
+  token: string,
+  leaseMs: number
+): Promise<PendingOriginate | null> => {
+  const value = (await redisClient.eval(
+    CLAIM_SCRIPT,
+    3,
+    getPendingKey(endpointId),
+    getClaimKey(endpointId),
+    ORIGINATE_SCHEDULE_KEY,
+    token,
+    leaseMs,
+    endpointId,
+    Date.now() + leaseMs
+  )) as string | null;
+  return value ? (JSON.parse(value) as PendingOriginate) : null;
+};
+
+/**
+ * Release claim after a failed attempt; retry at retryAtMs if the originate is still pending.
+ */
+export const releasePendingOriginate = async (endpointId: string, token: string, retryAtMs: number) => {
+  await redisClient.eval(
+    RELEASE_SCRIPT,
+    3,
+    getPendingKey(endpointId),
+    getClaimKey(endpointId),
+    ORIGINATE_SCHEDULE_KEY,
+    token,
+    endpointId,
+    retryAtMs
+  );
+};
+
+/**
+ * Remove pending originate after it's been processed (or is no longer wanted).
+ * The claim is left to expire, so a late attempt cannot originate the endpoint again.
+ */
+export const deletePendingOriginate = async (endpointId: string) => {
+  await deletePendingOriginates([endpointId]);
+};
+
+/**
+ * Remove pending originates of several endpoints (all devices of one call).
+ */
+export const deletePendingOriginates = async (endpointIds: string[]) => {
+  if (endpointIds.length === 0) return;
+  await redisClient
+    .multi()
+    .del(...endpointIds.map(getPendingKey))
+    .zrem(ORIGINATE_SCHEDULE_KEY, ...endpointIds)
+    .exec();
+};
+
+/**
+ * Endpoints whose next attempt is due (score <= nowMs), oldest first.
+ */
+export const getDueOriginates = async (nowMs: number, limit: number): Promise<string[]> => {
+  return redisClient.zrangebyscore(ORIGINATE_SCHEDULE_KEY, "-inf", nowMs, "LIMIT", 0, limit);
+};
+
+/**
+ * Time (ms) of the earliest scheduled attempt, or null when nothing is scheduled.
+ */
+export const getNextOriginateAt = async (): Promise<number | null> => {
+  const [, score] = await redisClient.zrange(ORIGINATE_SCHEDULE_KEY, 0, 0, "WITHSCORES");
+  return score !== undefined ? Number(score) : null;
+};
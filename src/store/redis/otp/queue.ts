@@ -31,6 +31,13 @@ export const isOtpCallQueued = async (phone: string): Promise<boolean> => {
   return result === 1;
 };
 
+/**
+ * Number of OTP call jobs waiting in the queue.
+ */
+export const getOtpQueueLength = async (): Promise<number> => {
+  return redisClient.llen(OTP_QUEUE_KEY);
+};
+
 /**
  * Block until a job appears at queue head (BLPOP) or timeout expires.
  * Returns null on timeout.
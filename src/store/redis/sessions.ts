@@ -0,0 +1,51 @@
+import { redisClient } from "./client";
+
+export type AuthSession = {
+  userId: number;
+  deviceId: string;
+  /** sha256 of the current refresh token secret (raw token is never stored). */
+  refreshHash: string;
+};
+
+const getSessionKey = (sessionId: string) => `auth:session:${sessionId}`;
+const getDeviceSessionKey = (userId: number, deviceId: string) => `auth:device:${userId}:${deviceId}`;
+
+/**
+ * Store app session with TTL and point the (user, device) pair at it.
+ * Returns id of the session previously bound to this device, if any (caller revokes it).
+ */
+export const setAuthSession = async (
+  sessionId: string,
+  session: AuthSession,
+  ttlSec: number
+): Promise<string | null> => {
+  const deviceKey = getDeviceSessionKey(session.userId, session.deviceId);
+  const previous = await redisClient.getset(deviceKey, sessionId);
+  await redisClient.expire(deviceKey, ttlSec);
+  await redisClient.set(getSessionKey(sessionId), JSON.stringify(session), "EX", ttlSec);
+  return previous && previous !== sessionId ? previous : null;
+};
+
+/**
+ * Load app session by id.
+ * Returns null when session is missing, expired or revoked.
+ */
+export const getAuthSession = async (sessionId: string): Promise<AuthSession | null> => {
+  const value = await redisClient.get(getSessionKey(sessionId));
+  return value ? (JSON.parse(value) as AuthSession) : null;
+};
+
+/**
+ * Revoke app session (logout / refresh token reuse / device re-login).
+ */
+export const deleteAuthSession = async (sessionId: string) => {
+  const session = await getAuthSession(sessionId);
+  await redisClient.del(getSessionKey(sessionId));
+  if (!session) return;
+
+  const deviceKey = getDeviceSessionKey(session.userId, session.deviceId);
+  const current = await redisClient.get(deviceKey);
+  if (current === sessionId) {
+    await redisClient.del(deviceKey);
+  }
+};
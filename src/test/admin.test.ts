@@ -0,0 +1,79 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+
+import { startHarness } from "./harness";
+
+import type { Harness } from "./harness";
+
+const ADMIN_TOKEN = "admin-test-token";
+
+describe("admin API", () => {
+  let h: Harness;
+  let env: typeof import("../config/env").env;
+
+  before(async () => {
+    h = await startHarness();
+    env = (require("../config/env") as typeof import("../config/env")).env;
+    env.adminApiToken = ADMIN_TOKEN;
+  });
+
+  after(async () => {
+    await h?.stop();
+  });
+
+  const admin = (method: "GET" | "POST" | "PATCH" | "PUT" | "DELETE", url: string, payload?: unknown) =>
+    h.app.inject({
+      method,
+      url: `/admin${url}`,
+      headers: { authorization: `Bearer ${ADMIN_TOKEN}` },
+      ...(payload !== undefined ? { payload: payload as Record<string, unknown> } : {}),
+    });
+
+  test("requires the admin token and is off without ADMIN_API_TOKEN", async () => {
+    const missing = await h.app.inject({ method: "GET", url: "/admin/addresses" });
+    assert.equal(missing.statusCode, 401);
+    const wrong = await h.app.inject({
+      method: "GET",
+      url: "/admin/addresses",
+      headers: { authorization: "Bearer not-the-token" },
+    });
+    assert.equal(wrong.statusCode, 401);
+
+    env.adminApiToken = "";
+    try {
+      assert.equal((await admin("GET", "/addresses")).statusCode, 403);
+    } finally {
+      env.adminApiToken = ADMIN_TOKEN;
+    }
+    assert.equal((await admin("GET", "/addresses")).statusCode, 200);
+  });
+
+  test("schema violations are 400, unknown ids 404", async () => {
+    const noHouse = await admin("POST", "/addresses", { street: "Ленина" });
+    assert.equal(noHouse.statusCode, 400);
+    const badId = await admin("POST", "/domophones", { id: "bad id", username: "panel", password: "secret-password" });
+    assert.equal(badId.statusCode, 400);
+    assert.equal((await admin("PATCH", "/addresses/abc", { house: "2" })).statusCode, 400);
+
+    assert.equal((await admin("PATCH", "/addresses/999999", { house: "2" })).statusCode, 404);
+    assert.equal((await admin("DELETE", "/panels/999999")).statusCode, 404);
+    assert.equal((await admin("GET", "/panels/999999/settings")).statusCode, 404);
+    assert.equal((await admin("DELETE", "/domophones/no-such-panel")).statusCode, 404);
+  });
+
+  test("Postgres unique and foreign key conflicts are 409", async () => {
+    const domophone = { id: "admin-panel-1", username: "admin-panel-1", password: "secret-password" };
+    assert.equal((await admin("POST", "/domophones", domophone)).statusCode, 201);
+    assert.equal((await admin("POST", "/domophones", domophone)).statusCode, 409);
+
+    const address = (await admin("POST", "/addresses", { street: "Садовая", house: "3" })).json() as { id: number };
+    const panel = await admin("POST", "/panels", { endpointId: domophone.id, addressId: address.id });
+    assert.equal(panel.statusCode, 201);
+    assert.equal((await admin("DELETE", `/addresses/${address.id}`)).statusCode, 409);
+
+    // The panel still calls from the endpoint: deleting it would leave the panel unreachable.
+    assert.equal((await admin("DELETE", `/domophones/${domophone.id}`)).statusCode, 409);
+    assert.equal((await admin("DELETE", `/panels/${(panel.json() as { id: number }).id}`)).statusCode, 204);
+    assert.equal((await admin("DELETE", `/domophones/${domophone.id}`)).statusCode, 204);
+  });
+});
@@ -0,0 +1,853 @@
+import assert from "node:assert/strict";
+import fs from "node:fs";
+import http from "node:http";
+import path from "node:path";
+import { after, before, describe, test } from "node:test";
+
+import { startHarness, waitFor } from "./harness";
+
+import type { Harness } from "./harness";
+
+type Postgres = typeof import("../store/postgres");
+
+const PANEL_IP = "10.0.0.5";
+
+describe("incoming call", () => {
+  let h: Harness;
+  let pg: Postgres;
+  let env: typeof import("../config/env").env;
+  let issueSession: typeof import("../auth/session").issueSession;
+  let addressId: number;
+  let panelSeq = 0;
+
+  before(async () => {
+    h = await startHarness();
+    pg = require("../store/postgres") as Postgres;
+    env = (require("../config/env") as typeof import("../config/env")).env;
+    issueSession = (require("../auth/session") as typeof import("../auth/session")).issueSession;
+    const address = await pg.addAddress({ street: "Ленина", house: "1" });
+    addressId = address.id;
+    await pg.addPanel({ ip: PANEL_IP, addressId });
+  });
+
+  after(async () => {
+    await h?.stop();
+  });
+
+  /** Subscribed resident of the apartment with one Android device; returns user id and access token. */
+  const seedResident = async (apartment: string) => {
+    const user = await pg.getOrCreateUser(`7900000${apartment.padStart(4, "0")}`);
+    await pg.setUserBinding(user.id, addressId, apartment);
+    await pg.updateUserSubscription(user.id, { extendDays: 30, isActive: true });
+    const pushToken = `fcm-${apartment}`;
+    await pg.savePushToken({ userId: user.id, pushToken, platform: "android", deviceId: `device-${apartment}` });
+    const session = await issueSession(user.id, `device-${apartment}`);
+    return { userId: user.id, pushToken, accessToken: session.accessToken };
+  };
+
+  /** Panel dials a number: channel enters Stasis; resolves with the callId from the SIP_CALL push. */
+  const panelCalls = async (dialled: string, pushToken: string, panelIp = PANEL_IP, endpointId?: string) => {
+    const channelId = `panel-chan-${++panelSeq}`;
+    const name = `PJSIP/${endpointId ?? `domophone${panelSeq}`}-0000000${panelSeq}`;
+    h.ari.addChannel(channelId, name);
+    h.ari.emit({ type: "StasisStart", channel: { id: channelId, name }, args: [panelIp, dialled] });
+    await waitFor(() => h.fcm.sent.some((m) => m.token === pushToken && m.data.type === "SIP_CALL"), 5000, "SIP_CALL push");
+    const push = h.fcm.sent.find((m) => m.token === pushToken && m.data.type === "SIP_CALL")!;
+    return { channelId, name, callId: push.data.callId!, push };
+  };
+
+  const historyStatus = async (accessToken: string, callId: string) => {
+    const res = await h.app.inject({
+      method: "GET",
+      url: "/calls/history",
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    assert.equal(res.statusCode, 200);
+    const items = (res.json() as { items: { callId: string; status: string }[] }).items;
+    return items.find((item) => item.callId === callId)?.status;
+  };
+
+  test("happy path: push, originate on registration, answer bridges the panel", async () => {
+    const resident = await seedResident("12");
+    const { channelId, callId, push } = await panelCalls("12", resident.pushToken);
+
+    const credentials = JSON.parse(push.data.sipCredentials!) as { username: string; password: string };
+    assert.equal(credentials.username, `inc_${callId}_0`);
+    assert.equal(push.data.address, "Ленина, д. 1");
+
+    h.ari.registerEndpoint(credentials.username);
+    const findLeg = () => [...h.ari.channels.values()].find((c) => c.name.startsWith(`PJSIP/${credentials.username}-`));
+    await waitFor(() => findLeg() !== undefined, 5000, "originate to the device");
+    const leg = findLeg()!;
+    const originate = h.ari.find("POST", /^\/channels$/).find((r) => r.body?.endpoint === `PJSIP/${credentials.username}`)!;
+    const [, bridgeId] = String(originate.body?.appArgs).split(",");
+    assert.ok(bridgeId && h.ari.bridges.get(bridgeId)?.channels.includes(channelId));
+
+    h.ari.emit({ type: "StasisStart", channel: { id: leg.id, name: leg.name }, args: ["outgoing", bridgeId] });
+
+    await h.ari.waitForRequest("POST", `/channels/${channelId}/answer`);
+    await waitFor(async () => (await historyStatus(resident.accessToken, callId)) === "accepted", 5000, "accepted status");
+    assert.ok(h.ari.bridges.get(bridgeId)?.channels.includes(leg.id));
+
+    const metrics = await h.app.inject({ method: "GET", url: "/metrics" });
+    assert.equal(metrics.statusCode, 200);
+    assert.match(metrics.body, /^intercom_incoming_calls_total\{outcome="accepted"\} 1$/m);
+    assert.match(metrics.body, /^intercom_call_answer_seconds_count 1$/m);
+    assert.match(metrics.body, /^intercom_fcm_messages_total\{result="success"\} \d+$/m);
+  });
+
+  test("device legs are remembered for the panel's call TTL", async () => {
+    const { redisClient } = require("../store/redis") as typeof import("../store/redis");
+    const panel = await pg.addPanel({ ip: "10.0.0.11", addressId });
+    await pg.updatePanelSettings(panel.id, { callTtlSec: 1800 });
+    const resident = await seedResident("46");
+    const { callId, push } = await panelCalls("46", resident.pushToken, "10.0.0.11");
+    const { username } = JSON.parse(push.data.sipCredentials!) as { username: string };
+    h.ari.registerEndpoint(username);
+    await waitFor(async () => (await redisClient.exists(`call:${callId}:legs`)) === 1, 5000, "device leg");
+    assert.ok((await redisClient.ttl(`call:${callId}:legs`)) > env.callTokenTtlSec);
+  });
+
+  test("rejection via /calls/end sends the panel to busy", async () => {
+    const resident = await seedResident("13");
+    const { channelId, callId } = await panelCalls("13", resident.pushToken);
+
+    const res = await h.app.inject({
+      method: "POST",
+      url: "/calls/end",
+      headers: { authorization: `Bearer ${resident.accessToken}` },
+      payload: { callId },
+    });
+    assert.equal(res.statusCode, 204);
+
+    const cont = await h.ari.waitForRequest("POST", `/channels/${channelId}/continue`);
+    assert.equal(cont.query.get("context"), "from-domophone");
+    assert.equal(cont.query.get("extension"), "busy");
+    assert.equal(await historyStatus(resident.accessToken, callId), "rejected");
+
+    const other = await seedResident("14");
+    const stranger = await h.app.inject({
+      method: "POST",
+      url: "/calls/end",
+      headers: { authorization: `Bearer ${other.accessToken}` },
+      payload: { callId },
+    });
+    assert.equal(stranger.statusCode, 404);
+  });
+
+  test("declining tells the family's other devices the call was rejected elsewhere", async () => {
+    const resident = await seedResident("45");
+    const flatmate = await pg.getOrCreateUser("79000990045");
+    await pg.setUserBinding(flatmate.id, addressId, "45");
+    await pg.updateUserSubscription(flatmate.id, { extendDays: 30, isActive: true });
+    await pg.savePushToken({ userId: flatmate.id, pushToken: "fcm-45-flatmate", platform: "android", deviceId: "device-45-flatmate" });
+    const { callId } = await panelCalls("45", resident.pushToken);
+    assert.equal(h.fcm.forCall(callId, "SIP_CALL").length, 2);
+
+    const res = await h.app.inject({
+      method: "POST",
+      url: "/calls/end",
+      headers: { authorization: `Bearer ${resident.accessToken}` },
+      payload: { callId },
+    });
+    assert.equal(res.statusCode, 204);
+
+    await waitFor(() => h.fcm.forCall(callId, "SIP_CALL_ENDED").length > 0, 5000, "SIP_CALL_ENDED push");
+    const ended = h.fcm.forCall(callId, "SIP_CALL_ENDED");
+    assert.deepEqual(ended.map((m) => [m.token, m.data.reason]), [["fcm-45-flatmate", "rejected_elsewhere"]]);
+  });
+
+  test("ring timeout sends the panel to noanswer", async () => {
+    const ringTimeoutSec = env.ringTimeoutSec;
+    env.ringTimeoutSec = 1;
+    try {
+      const resident = await seedResident("15");
+      const { channelId, callId } = await panelCalls("15", resident.pushToken);
+
+      const cont = await h.ari.waitForRequest("POST", `/channels/${channelId}/continue`, 5000);
+      assert.equal(cont.query.get("extension"), "noanswer");
+      await waitFor(async () => (await historyStatus(resident.accessToken, callId)) === "timeout", 5000, "timeout status");
+    } finally {
+      env.ringTimeoutSec = ringTimeoutSec;
+    }
+  });
+
+  test("apartment without a paying resident goes to the unpaid fallback without a push", async () => {
+    const resident = await seedResident("41");
+    const flatmate = await pg.getOrCreateUser("79000990041");
+    await pg.setUserBinding(flatmate.id, addressId, "41");
+    await pg.savePushToken({ userId: flatmate.id, pushToken: "fcm-41-flatmate", platform: "android", deviceId: "device-41-flatmate" });
+    for (const userId of [resident.userId, flatmate.id]) {
+      await pg.updateUserSubscription(userId, { paidUntil: "2000-01-01", isActive: true });
+    }
+
+    /** Panel dials 41; resolves with the dialplan extension the panel is sent to. */
+    const unpaidCall = async () => {
+      const channelId = `panel-chan-${++panelSeq}`;
+      const name = `PJSIP/domophone${panelSeq}-0000000${panelSeq}`;
+      h.ari.addChannel(channelId, name);
+      h.ari.emit({ type: "StasisStart", channel: { id: channelId, name }, args: [PANEL_IP, "41"] });
+      const cont = await h.ari.waitForRequest("POST", `/channels/${channelId}/continue`, 5000);
+      assert.equal(cont.query.get("context"), "from-domophone");
+      return cont.query.get("extension");
+    };
+
+    const unpaidCallAction = env.unpaidCallAction;
+    try {
+      assert.equal(await unpaidCall(), "notpaid");
+      env.unpaidCallAction = "noanswer";
+      assert.equal(await unpaidCall(), "noanswer");
+    } finally {
+      env.unpaidCallAction = unpaidCallAction;
+    }
+    assert.equal(h.fcm.sent.filter((m) => m.token === resident.pushToken || m.token === "fcm-41-flatmate").length, 0);
+    const history = await h.app.inject({
+      method: "GET",
+      url: "/calls/history",
+      headers: { authorization: `Bearer ${resident.accessToken}` },
+    });
+    const items = (history.json() as { items: { status: string }[] }).items;
+    assert.deepEqual(items.map((item) => item.status), ["unpaid", "unpaid"]);
+  });
+
+  test("visitor leaves a voice message when nobody answers", async () => {
+    const panel = await pg.addPanel({ ip: "10.0.0.9", addressId });
+    await pg.updatePanelSettings(panel.id, { voicemailMaxSec: 30 });
+    const ringTimeoutSec = env.ringTimeoutSec;
+    env.ringTimeoutSec = 1;
+    try {
+      const resident = await seedResident("32");
+      const { channelId, callId } = await panelCalls("32", resident.pushToken, "10.0.0.9");
+      const name = `voicemail-${callId}`;
+
+      const play = await h.ari.waitForRequest("POST", `/channels/${channelId}/play/${name}`, 5000);
+      assert.equal(play.query.get("media"), "sound:vm-intro");
+      assert.equal(h.ari.find("POST", `/channels/${channelId}/continue`).length, 0);
+      h.ari.emit({ type: "PlaybackFinished", playback: { id: name, target_uri: `channel:${channelId}` } });
+
+      const record = await h.ari.waitForRequest("POST", `/channels/${channelId}/record`);
+      assert.equal(record.query.get("name"), name);
+      assert.equal(record.query.get("maxDurationSeconds"), "30");
+      h.ari.addStoredRecording(name, Buffer.from("RIFF-voice"));
+      h.ari.emit({
+        type: "RecordingFinished",
+        recording: { name, target_uri: `channel:${channelId}`, format: "wav", duration: 4 },
+      });
+
+      await waitFor(() => h.fcm.sent.some((m) => m.token === resident.pushToken && m.data.type === "VOICE_MESSAGE"), 5000, "VOICE_MESSAGE push");
+      const push = h.fcm.sent.find((m) => m.token === resident.pushToken && m.data.type === "VOICE_MESSAGE")!;
+      assert.equal(push.data.url, `${env.publicBaseUrl}/calls/${callId}/voicemail`);
+      await h.ari.waitForRequest("DELETE", `/recordings/stored/${name}`);
+      await h.ari.waitForRequest("DELETE", `/channels/${channelId}`);
+
+      const download = await h.app.inject({
+        method: "GET",
+        url: `/calls/${callId}/voicemail`,
+        headers: { authorization: `Bearer ${resident.accessToken}` },
+      });
+      assert.equal(download.statusCode, 302);
+      const file = await h.app.inject({ method: "GET", url: String(download.headers.location).replace(env.publicBaseUrl, "") });
+      assert.equal(file.statusCode, 200);
+      assert.equal(file.headers["content-type"], "audio/wav");
+      assert.equal(file.body, "RIFF-voice");
+
+      const other = await seedResident("33");
+      const stranger = await h.app.inject({
+        method: "GET",
+        url: `/calls/${callId}/voicemail`,
+        headers: { authorization: `Bearer ${other.accessToken}` },
+      });
+      assert.equal(stranger.statusCode, 404);
+    } finally {
+      env.ringTimeoutSec = ringTimeoutSec;
+    }
+  });
+
+  test("empty or unstorable voice message is dropped without a push", async () => {
+    const ringTimeoutSec = env.ringTimeoutSec;
+    env.ringTimeoutSec = 1;
+    try {
+      /** Visitor at the 10.0.0.9 voicemail panel records a message of durationSec; resolves when it is handled. */
+      const leaveMessage = async (apartment: string, durationSec: number) => {
+        const resident = await seedResident(apartment);
+        const { channelId, callId } = await panelCalls(apartment, resident.pushToken, "10.0.0.9");
+        const name = `voicemail-${callId}`;
+        await h.ari.waitForRequest("POST", `/channels/${channelId}/play/${name}`, 5000);
+        h.ari.emit({ type: "PlaybackFinished", playback: { id: name, target_uri: `channel:${channelId}` } });
+        await h.ari.waitForRequest("POST", `/channels/${channelId}/record`);
+        h.ari.addStoredRecording(name, Buffer.from("RIFF-voice"));
+        h.ari.emit({
+          type: "RecordingFinished",
+          recording: { name, target_uri: `channel:${channelId}`, format: "wav", duration: durationSec },
+        });
+        await h.ari.waitForRequest("DELETE", `/recordings/stored/${name}`);
+        await h.ari.waitForRequest("DELETE", `/channels/${channelId}`);
+        return { resident, callId };
+      };
+      const assertNoVoicemail = async ({ resident, callId }: Awaited<ReturnType<typeof leaveMessage>>) => {
+        assert.equal(h.fcm.sent.filter((m) => m.token === resident.pushToken && m.data.type === "VOICE_MESSAGE").length, 0);
+        const download = await h.app.inject({
+          method: "GET",
+          url: `/calls/${callId}/voicemail`,
+          headers: { authorization: `Bearer ${resident.accessToken}` },
+        });
+        assert.equal(download.statusCode, 404);
+      };
+
+      await assertNoVoicemail(await leaveMessage("43", 0));
+
+      // Storage fails: OBJECT_STORAGE_DIR is a regular file.
+      const storageDir = env.objectStorage.dir;
+      env.objectStorage.dir = path.join(h.tmpDir, "firebase.json");
+      try {
+        await assertNoVoicemail(await leaveMessage("44", 4));
+      } finally {
+        env.objectStorage.dir = storageDir;
+      }
+    } finally {
+      env.ringTimeoutSec = ringTimeoutSec;
+    }
+  });
+
+  test("unanswered call is forwarded to the resident's phone over multifon", async () => {
+    const ringTimeoutSec = env.ringTimeoutSec;
+    env.ringTimeoutSec = 1;
+    try {
+      const resident = await seedResident("26");
+      const setting = await h.app.inject({
+        method: "PUT",
+        url: "/users/me/forwarding",
+        headers: { authorization: `Bearer ${resident.accessToken}` },
+        payload: { phone: "79001112233" },
+      });
+      assert.equal(setting.statusCode, 200);
+      const { channelId, callId } = await panelCalls("26", resident.pushToken);
+
+      const findForward = () =>
+        h.ari.find("POST", /^\/channels$/).find((r) => r.body?.endpoint === "PJSIP/79001112233@multifon");
+      await waitFor(() => findForward() !== undefined, 5000, "forward originate");
+      const originate = findForward()!;
+      assert.equal(originate.body?.appArgs, `forward,${callId},${resident.userId}`);
+      const leg = [...h.ari.channels.values()].find((c) => c.name.startsWith("PJSIP/79001112233@multifon-"))!;
+      h.ari.emit({ type: "StasisStart", channel: { id: leg.id, name: leg.name }, args: ["forward", callId, String(resident.userId)] });
+
+      await h.ari.waitForRequest("POST", `/channels/${channelId}/answer`);
+      await waitFor(async () => (await historyStatus(resident.accessToken, callId)) === "forwarded", 5000, "forwarded status");
+      assert.equal(h.ari.find("POST", `/channels/${channelId}/continue`).length, 0);
+    } finally {
+      env.ringTimeoutSec = ringTimeoutSec;
+    }
+  });
+
+  test("device that comes online while the call is forwarded is still rung", async () => {
+    const ringTimeoutSec = env.ringTimeoutSec;
+    env.ringTimeoutSec = 1;
+    try {
+      const resident = await seedResident("42");
+      await pg.setForwardPhone(resident.userId, "79001114242");
+      const { channelId, name, callId, push } = await panelCalls("42", resident.pushToken);
+      await waitFor(
+        () => h.ari.find("POST", /^\/channels$/).some((r) => r.body?.endpoint === "PJSIP/79001114242@multifon"),
+        5000,
+        "forward originate"
+      );
+      const { getCallData } = require("../store/redis") as typeof import("../store/redis");
+      assert.equal((await getCallData<{ status: string }>(callId))?.status, "forwarding");
+
+      // The app registers only after the ring deadline, while the resident's phone is rung.
+      const { username } = JSON.parse(push.data.sipCredentials!) as { username: string };
+      h.ari.registerEndpoint(username);
+      await waitFor(
+        () => h.ari.find("POST", /^\/channels$/).some((r) => r.body?.endpoint === `PJSIP/${username}`),
+        5000,
+        "originate to the device"
+      );
+      h.ari.emit({ type: "StasisEnd", channel: { id: channelId, name } });
+    } finally {
+      env.ringTimeoutSec = ringTimeoutSec;
+    }
+  });
+
+  test("resident in do-not-disturb is not rung and the call is logged as dnd", async () => {
+    const resident = await seedResident("27");
+    const setting = await h.app.inject({
+      method: "PUT",
+      url: "/users/me/dnd",
+      headers: { authorization: `Bearer ${resident.accessToken}` },
+      payload: { timezone: "Europe/Moscow", until: new Date(Date.now() + 3600_000).toISOString() },
+    });
+    assert.equal(setting.statusCode, 200);
+
+    const channelId = "panel-chan-dnd";
+    const name = "PJSIP/domophone-dnd-00000001";
+    h.ari.addChannel(channelId, name);
+    h.ari.emit({ type: "StasisStart", channel: { id: channelId, name }, args: [PANEL_IP, "27"] });
+
+    const cont = await h.ari.waitForRequest("POST", `/channels/${channelId}/continue`);
+    assert.equal(cont.query.get("extension"), "noanswer");
+    assert.equal(h.fcm.sent.filter((m) => m.token === resident.pushToken).length, 0);
+    const history = await h.app.inject({
+      method: "GET",
+      url: "/calls/history",
+      headers: { authorization: `Bearer ${resident.accessToken}` },
+    });
+    assert.deepEqual(
+      (history.json() as { items: { status: string }[] }).items.map((item) => item.status),
+      ["dnd"]
+    );
+  });
+
+  test("do-not-disturb windows follow the resident's time zone and span midnight", () => {
+    const { isDndActive } = require("../call/dnd") as typeof import("../call/dnd");
+    const settings = {
+      user_id: 1,
+      timezone: "Europe/Moscow",
+      windows: [{ from: "22:00", to: "07:00", days: [5] }],
+      dnd_until: null,
+      muted_panel_ids: [9],
+    };
+    // Friday 2026-03-06 23:30 and Saturday 06:30 Moscow time (UTC+3) belong to Friday's window.
+    assert.equal(isDndActive(settings, 1, new Date("2026-03-06T20:30:00Z")), true);
+    assert.equal(isDndActive(settings, 1, new Date("2026-03-07T03:30:00Z")), true);
+    assert.equal(isDndActive(settings, 1, new Date("2026-03-07T20:30:00Z")), false);
+    assert.equal(isDndActive(settings, 9, new Date("2026-03-07T12:00:00Z")), true);
+  });
+
+  test("panel settings: apartment mapping, codecs, prompts and ring timeout", async () => {
+    const panel = await pg.addPanel({ ip: "10.0.0.6", addressId });
+    await pg.updatePanelSettings(panel.id, {
+      ringTimeoutSec: 60,
+      codecs: "ulaw,h264",
+      apartmentOffset: -1000,
+      apartmentMap: { "2999": "18" },
+      promptBusy: "custom/busy",
+    });
+    const shifted = await seedResident("17");
+    const mapped = await seedResident("18");
+
+    const call = await panelCalls("1017", shifted.pushToken, "10.0.0.6");
+    await panelCalls("2999", mapped.pushToken, "10.0.0.6");
+
+    const prompt = await h.ari.waitForRequest("POST", `/channels/${call.channelId}/variable`);
+    assert.equal(prompt.query.get("variable"), "INTERCOM_PROMPT_BUSY");
+    assert.equal(prompt.query.get("value"), "custom/busy");
+
+    const { rows } = await pg.db.query<{ allow: string }>(`SELECT allow FROM ps_endpoints WHERE id = $1`, [
+      `inc_${call.callId}_0`,
+    ]);
+    assert.equal(rows[0]?.allow, "ulaw,h264");
+
+    const redis = require("../store/redis") as typeof import("../store/redis");
+    const callData = await redis.getCallData<import("../types").CallData>(call.callId);
+    assert.ok(callData?.ringDeadlineAt && callData.ringDeadlineAt - Date.now() > 45000);
+  });
+
+  test("panel is found by endpoint id first, then by IP range", async () => {
+    const otherAddress = await pg.addAddress({ street: "Мира", house: "5" });
+    await pg.addPanel({ endpointId: "gate-7", addressId: otherAddress.id });
+    await pg.addPanel({ ipRanges: ["10.1.0.0/16"], endpointId: "wide", addressId: otherAddress.id });
+    await pg.addPanel({ ipRanges: ["10.1.2.0/24"], endpointId: "narrow", addressId });
+    const byEndpoint = await seedResident("21");
+    await pg.setUserBinding(byEndpoint.userId, otherAddress.id, "21");
+    const byRange = await seedResident("22");
+
+    // Endpoint id wins over the (known) source IP; ids with "-" are kept whole.
+    const first = await panelCalls("21", byEndpoint.pushToken, PANEL_IP, "gate-7");
+    assert.equal(first.push.data.address, "Мира, д. 5");
+
+    // Unknown endpoint: the narrowest matching range decides.
+    const second = await panelCalls("22", byRange.pushToken, "10.1.2.40");
+    assert.equal(second.push.data.address, "Ленина, д. 1");
+  });
+
+  test("gate panel resolves the dialled number to the address of its zone", async () => {
+    const gate = await pg.addPanel({ ip: "10.0.0.7", addressId, kind: "gate" });
+    const otherAddress = await pg.addAddress({ street: "Мира", house: "7" });
+    await pg.replacePanelZones(gate.id, [
+      { addressId, apartmentFrom: 1001, apartmentTo: 1200, apartmentOffset: -1000 },
+      { addressId: otherAddress.id, apartmentFrom: 2001, apartmentTo: 2200, apartmentOffset: -2000 },
+    ]);
+    const here = await seedResident("23");
+    const there = await seedResident("24");
+    await pg.setUserBinding(there.userId, otherAddress.id, "24");
+
+    const first = await panelCalls("1023", here.pushToken, "10.0.0.7");
+    assert.equal(first.push.data.address, "Ленина, д. 1, калитка");
+    const second = await panelCalls("2024", there.pushToken, "10.0.0.7");
+    assert.equal(second.push.data.address, "Мира, д. 7, калитка");
+
+    // Entrance panel names its entrance.
+    const entrance = await pg.addPanel({ ip: "10.0.0.8", addressId, name: "подъезд 2" });
+    const resident = await seedResident("25");
+    const third = await panelCalls("25", resident.pushToken, "10.0.0.8");
+    assert.equal(third.push.data.address, "Ленина, д. 1, подъезд 2");
+    assert.equal(entrance.kind, "entrance");
+  });
+
+  test("second channel from the same panel is hung up without another push", async () => {
+    const resident = await seedResident("16");
+    const first = await panelCalls("16", resident.pushToken);
+
+    const duplicateId = "panel-chan-duplicate";
+    const duplicateName = first.name.replace(/-\d+$/, "-99999999");
+    h.ari.addChannel(duplicateId, duplicateName);
+    h.ari.emit({ type: "StasisStart", channel: { id: duplicateId, name: duplicateName }, args: [PANEL_IP, "16"] });
+
+    await h.ari.waitForRequest("DELETE", `/channels/${duplicateId}`);
+    assert.equal(h.fcm.sent.filter((m) => m.token === resident.pushToken && m.data.type === "SIP_CALL").length, 1);
+    assert.equal(h.ari.find("POST", `/channels/${first.channelId}/continue`).length, 0);
+  });
+
+  test("guest pass opens the door until its uses run out", async () => {
+    let unlocks = 0;
+    const relay = http.createServer((_req, res) => {
+      unlocks += 1;
+      res.end("ok");
+    });
+    await new Promise<void>((resolve) => relay.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = relay.address() as { port: number };
+      const resident = await seedResident("28");
+      const panel = await pg.addPanel({ endpointId: "relay-panel", addressId, unlockMethod: "http", unlockUrl: `http://127.0.0.1:${port}/open` });
+
+      const created = await h.app.inject({
+        method: "POST",
+        url: "/guest-passes",
+        headers: { authorization: `Bearer ${resident.accessToken}` },
+        payload: { panelId: panel.id, validUntil: new Date(Date.now() + 3600_000).toISOString(), maxUses: 1 },
+      });
+      assert.equal(created.statusCode, 201);
+      const { token, url } = created.json() as { token: string; url: string };
+      assert.ok(url.endsWith(`/guest-passes/${token}/open`));
+
+      const forged = await h.app.inject({ method: "POST", url: `/guest-passes/${token.replace(/^\d+/, "999")}/open` });
+      assert.equal(forged.statusCode, 404);
+      const opened = await h.app.inject({ method: "POST", url: `/guest-passes/${token}/open` });
+      assert.equal(opened.statusCode, 204);
+      const usedUp = await h.app.inject({ method: "POST", url: `/guest-passes/${token}/open` });
+      assert.equal(usedUp.statusCode, 410);
+      assert.equal(unlocks, 1);
+    } finally {
+      await new Promise((resolve) => relay.close(resolve));
+    }
+  });
+
+  test("guest pass stops working once its creator moves out or stops paying", async () => {
+    const relay = http.createServer((_req, res) => res.end("ok"));
+    await new Promise<void>((resolve) => relay.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = relay.address() as { port: number };
+      const resident = await seedResident("36");
+      const panel = await pg.addPanel({ endpointId: "pass-panel", addressId, unlockMethod: "http", unlockUrl: `http://127.0.0.1:${port}/open` });
+      const created = await h.app.inject({
+        method: "POST",
+        url: "/guest-passes",
+        headers: { authorization: `Bearer ${resident.accessToken}` },
+        payload: { panelId: panel.id, validUntil: new Date(Date.now() + 3600_000).toISOString(), maxUses: 5 },
+      });
+      assert.equal(created.statusCode, 201);
+      const { token } = created.json() as { token: string };
+      const open = async () => (await h.app.inject({ method: "POST", url: `/guest-passes/${token}/open` })).statusCode;
+
+      await pg.updateUserSubscription(resident.userId, { paidUntil: "2000-01-01" });
+      assert.equal(await open(), 410);
+      await pg.updateUserSubscription(resident.userId, { extendDays: 30 });
+      assert.equal(await open(), 204);
+
+      await pg.clearUserBinding(resident.userId);
+      assert.equal(await open(), 410);
+    } finally {
+      await new Promise((resolve) => relay.close(resolve));
+    }
+  });
+
+  test("door opens during the call for its residents only", async () => {
+    await pg.addPanel({ ip: "10.0.0.10", addressId, unlockMethod: "dtmf", unlockDtmf: "#1" });
+    const resident = await seedResident("37");
+    const other = await seedResident("38");
+    const { channelId, callId } = await panelCalls("37", resident.pushToken, "10.0.0.10");
+    const openDoor = async (accessToken: string) =>
+      (
+        await h.app.inject({
+          method: "POST",
+          url: `/calls/${callId}/open-door`,
+          headers: { authorization: `Bearer ${accessToken}` },
+        })
+      ).statusCode;
+
+    assert.equal(await openDoor(other.accessToken), 403);
+    assert.equal(h.ari.find("POST", `/channels/${channelId}/dtmf`).length, 0);
+    assert.equal(await openDoor(resident.accessToken), 204);
+    const dtmf = await h.ari.waitForRequest("POST", `/channels/${channelId}/dtmf`);
+    assert.equal(dtmf.query.get("dtmf"), "#1");
+
+    const end = await h.app.inject({
+      method: "POST",
+      url: "/calls/end",
+      headers: { authorization: `Bearer ${resident.accessToken}` },
+      payload: { callId },
+    });
+    assert.equal(end.statusCode, 204);
+    assert.equal(await openDoor(resident.accessToken), 404);
+    assert.equal(h.ari.find("POST", `/channels/${channelId}/dtmf`).length, 1);
+  });
+
+  test("door opens from the app for residents the panel serves", async () => {
+    let unlocks = 0;
+    const relay = http.createServer((_req, res) => {
+      unlocks += 1;
+      res.end("ok");
+    });
+    await new Promise<void>((resolve) => relay.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = relay.address() as { port: number };
+      const panel = await pg.addPanel({ endpointId: "app-relay-panel", addressId, unlockMethod: "http", unlockUrl: `http://127.0.0.1:${port}/open` });
+      const resident = await seedResident("39");
+      const outsider = await seedResident("40");
+      const otherAddress = await pg.addAddress({ street: "Мира", house: "9" });
+      await pg.setUserBinding(outsider.userId, otherAddress.id, "40");
+      const openDoor = async (accessToken: string, panelId = panel.id) =>
+        (
+          await h.app.inject({
+            method: "POST",
+            url: `/panels/${panelId}/open-door`,
+            headers: { authorization: `Bearer ${accessToken}` },
+          })
+        ).statusCode;
+
+      assert.equal(await openDoor(outsider.accessToken), 403);
+      assert.equal(await openDoor(resident.accessToken, 999999), 404);
+      assert.equal(unlocks, 0);
+      assert.equal(await openDoor(resident.accessToken), 204);
+      assert.equal(unlocks, 1);
+    } finally {
+      await new Promise((resolve) => relay.close(resolve));
+    }
+  });
+
+  test("live view bridges the panel to the muted app and ends after the session limit", async () => {
+    const liveViewMaxSec = env.liveViewMaxSec;
+    env.liveViewMaxSec = 1;
+    try {
+      const resident = await seedResident("29");
+      const panel = await pg.addPanel({ endpointId: "camera-panel", addressId });
+      h.ari.registerEndpoint("camera-panel");
+      const startLiveView = () =>
+        h.app.inject({
+          method: "POST",
+          url: `/panels/${panel.id}/live-view`,
+          headers: { authorization: `Bearer ${resident.accessToken}` },
+        });
+
+      const res = await startLiveView();
+      assert.equal(res.statusCode, 200);
+      const { liveViewId, sipCredentials, extension } = res.json() as {
+        liveViewId: string;
+        sipCredentials: { username: string };
+        extension: string;
+      };
+      assert.equal(extension, "live");
+      assert.equal((await startLiveView()).statusCode, 409);
+
+      const viewerId = "live-viewer-chan";
+      const viewerName = `PJSIP/${sipCredentials.username}-00000001`;
+      h.ari.addChannel(viewerId, viewerName);
+      h.ari.emit({ type: "StasisStart", channel: { id: viewerId, name: viewerName }, args: ["liveview"] });
+      const mute = await h.ari.waitForRequest("POST", `/channels/${viewerId}/mute`);
+      assert.equal(mute.query.get("direction"), "in");
+
+      const findPanelOriginate = () =>
+        h.ari.find("POST", /^\/channels$/).find((r) => r.body?.endpoint === "PJSIP/camera-panel");
+      await waitFor(() => findPanelOriginate() !== undefined, 5000, "panel originate");
+      assert.equal(findPanelOriginate()!.body?.appArgs, `liveview,${liveViewId}`);
+      const panelLeg = [...h.ari.channels.values()].find((c) => c.name.startsWith("PJSIP/camera-panel-"))!;
+      h.ari.emit({ type: "StasisStart", channel: { id: panelLeg.id, name: panelLeg.name }, args: ["liveview", liveViewId] });
+      await waitFor(
+        () => [...h.ari.bridges.values()].some((b) => b.channels.includes(viewerId) && b.channels.includes(panelLeg.id)),
+        5000,
+        "live view bridge"
+      );
+
+      await h.ari.waitForRequest("DELETE", `/channels/${viewerId}`, 5000);
+      await h.ari.waitForRequest("DELETE", `/channels/${panelLeg.id}`, 5000);
+      await waitFor(async () => (await startLiveView()).statusCode === 200, 5000, "panel free again");
+    } finally {
+      env.liveViewMaxSec = liveViewMaxSec;
+    }
+  });
+
+  test("app calls ring a neighbour at the caller's address or the concierge desk", async () => {
+    const caller = await seedResident("30");
+    const neighbour = await seedResident("31");
+    const credentials = async () => {
+      const res = await h.app.inject({
+        method: "POST",
+        url: "/calls/credentials",
+        headers: { authorization: `Bearer ${caller.accessToken}` },
+      });
+      return (res.json() as { username: string }).username;
+    };
+    const appDials = (channelId: string, username: string, extension: string) => {
+      const name = `PJSIP/${username}-00000001`;
+      h.ari.addChannel(channelId, name);
+      h.ari.emit({ type: "StasisStart", channel: { id: channelId, name }, args: ["app-call", extension] });
+    };
+
+    appDials("app-call-own", await credentials(), "30");
+    await h.ari.waitForRequest("DELETE", "/channels/app-call-own");
+
+    appDials("app-call-neighbour", await credentials(), "31");
+    await waitFor(() => h.fcm.sent.some((m) => m.token === neighbour.pushToken && m.data.type === "SIP_CALL"), 5000, "neighbour push");
+    const push = h.fcm.sent.find((m) => m.token === neighbour.pushToken && m.data.type === "SIP_CALL")!;
+    assert.equal(push.data.address, "Ленина, д. 1, кв. 30");
+
+    await pg.updateAddress(addressId, { conciergeEndpointId: "concierge-desk" });
+    h.ari.registerEndpoint("concierge-desk");
+    appDials("app-call-desk", await credentials(), "concierge");
+    const findDesk = () => h.ari.find("POST", /^\/channels$/).find((r) => r.body?.endpoint === "PJSIP/concierge-desk");
+    await waitFor(() => findDesk() !== undefined, 5000, "concierge originate");
+    assert.equal(findDesk()!.body?.appArgs, "concierge,app-call-desk");
+    const desk = [...h.ari.channels.values()].find((c) => c.name.startsWith("PJSIP/concierge-desk-"))!;
+    h.ari.emit({ type: "StasisStart", channel: { id: desk.id, name: desk.name }, args: ["concierge", "app-call-desk"] });
+    await h.ari.waitForRequest("POST", "/channels/app-call-desk/answer");
+    await waitFor(
+      () => [...h.ari.bridges.values()].some((b) => b.channels.includes("app-call-desk") && b.channels.includes(desk.id)),
+      5000,
+      "concierge bridge"
+    );
+
+    h.ari.emit({ type: "StasisEnd", channel: { id: "app-call-desk", name: "PJSIP/out-00000001" } });
+    await h.ari.waitForRequest("DELETE", `/channels/${desk.id}`);
+  });
+
+  test("answered call at a recording address is recorded, played back and purged after retention", async () => {
+    const adminApiToken = env.adminApiToken;
+    env.adminApiToken = "admin-token";
+    await pg.updateAddress(addressId, { callRecordingDays: 30 });
+    try {
+      const resident = await seedResident("34");
+      const { channelId, name, callId, push } = await panelCalls("34", resident.pushToken);
+      const { username } = JSON.parse(push.data.sipCredentials!) as { username: string };
+      h.ari.registerEndpoint(username);
+      const findLeg = () => [...h.ari.channels.values()].find((c) => c.name.startsWith(`PJSIP/${username}-`));
+      await waitFor(() => findLeg() !== undefined, 5000, "originate to the device");
+      const leg = findLeg()!;
+      const originate = h.ari.find("POST", /^\/channels$/).find((r) => r.body?.endpoint === `PJSIP/${username}`)!;
+      const [, bridgeId] = String(originate.body?.appArgs).split(",");
+      h.ari.emit({ type: "StasisStart", channel: { id: leg.id, name: leg.name }, args: ["outgoing", bridgeId!] });
+
+      const record = await h.ari.waitForRequest("POST", `/bridges/${bridgeId}/record`);
+      const recordingName = `call-${callId}`;
+      assert.equal(record.query.get("name"), recordingName);
+      type RecordingRow = { recording_key: string | null; retention_days: number | null; recording_duration_sec: number | null };
+      const recordingRow = async () =>
+        (
+          await pg.db.query<RecordingRow>(
+            `
+            SELECT recording_key, recording_duration_sec,
+              ROUND(EXTRACT(EPOCH FROM recording_expires_at - NOW()) / 86400)::int AS retention_days
+            FROM calls WHERE call_id = $1
+            `,
+            [callId]
+          )
+        ).rows[0];
+      // Key and retention are attached when recording starts, not read back from Redis when it ends.
+      await waitFor(async () => (await recordingRow())?.recording_key !== null, 5000, "recording attached to history");
+      assert.deepEqual(await recordingRow(), { recording_key: `${callId}-call.wav`, retention_days: 30, recording_duration_sec: null });
+
+      h.ari.emit({ type: "StasisEnd", channel: { id: channelId, name } });
+      await h.ari.waitForRequest("DELETE", `/bridges/${bridgeId}`);
+      h.ari.addStoredRecording(recordingName, Buffer.from("RIFF-talk"));
+      h.ari.emit({
+        type: "RecordingFinished",
+        recording: { name: recordingName, target_uri: `bridge:${bridgeId}`, format: "wav", duration: 12 },
+      });
+      await h.ari.waitForRequest("DELETE", `/recordings/stored/${recordingName}`);
+
+      const play = (authorization: string) =>
+        h.app.inject({ method: "GET", url: `/calls/${callId}/recording`, headers: { authorization } });
+      const own = await play(`Bearer ${resident.accessToken}`);
+      assert.equal(own.statusCode, 200);
+      assert.equal(own.headers["content-type"], "audio/wav");
+      assert.equal(own.body, "RIFF-talk");
+      assert.equal((await play("Bearer admin-token")).statusCode, 200);
+      const other = await seedResident("35");
+      assert.equal((await play(`Bearer ${other.accessToken}`)).statusCode, 404);
+
+      const file = path.join(env.objectStorage.dir, `${callId}-call.wav`);
+      assert.ok(fs.existsSync(file));
+      const recording = require("../call/recording") as typeof import("../call/recording");
+      await recording.purgeExpiredRecordings(h.app);
+      assert.ok(fs.existsSync(file), "recording within retention is kept");
+
+      await pg.db.query(`UPDATE calls SET recording_expires_at = NOW() - INTERVAL '1 day' WHERE call_id = $1`, [callId]);
+      await recording.purgeExpiredRecordings(h.app);
+      assert.ok(!fs.existsSync(file), "expired recording is deleted from storage");
+      assert.deepEqual(await recordingRow(), { recording_key: null, retention_days: null, recording_duration_sec: 12 });
+      assert.equal((await play("Bearer admin-token")).statusCode, 404);
+    } finally {
+      await pg.updateAddress(addressId, { callRecordingDays: null });
+      env.adminApiToken = adminApiToken;
+    }
+  });
+
+  test("recording is offered once stored and only to residents who were rung", async () => {
+    await pg.updateAddress(addressId, { callRecordingDays: 30 });
+    try {
+      const resident = await seedResident("47");
+      const flatmate = await pg.getOrCreateUser("79000990047");
+      await pg.setUserBinding(flatmate.id, addressId, "47");
+      await pg.updateUserSubscription(flatmate.id, { extendDays: 30, isActive: true });
+      const flatmateSession = await issueSession(flatmate.id, "device-47-flatmate");
+      const dnd = await h.app.inject({
+        method: "PUT",
+        url: "/users/me/dnd",
+        headers: { authorization: `Bearer ${flatmateSession.accessToken}` },
+        payload: { timezone: "Europe/Moscow", until: new Date(Date.now() + 3600_000).toISOString() },
+      });
+      assert.equal(dnd.statusCode, 200);
+
+      const { channelId, name, callId, push } = await panelCalls("47", resident.pushToken);
+      const { username } = JSON.parse(push.data.sipCredentials!) as { username: string };
+      h.ari.registerEndpoint(username);
+      const findLeg = () => [...h.ari.channels.values()].find((c) => c.name.startsWith(`PJSIP/${username}-`));
+      await waitFor(() => findLeg() !== undefined, 5000, "originate to the device");
+      const leg = findLeg()!;
+      const originate = h.ari.find("POST", /^\/channels$/).find((r) => r.body?.endpoint === `PJSIP/${username}`)!;
+      const [, bridgeId] = String(originate.body?.appArgs).split(",");
+      h.ari.emit({ type: "StasisStart", channel: { id: leg.id, name: leg.name }, args: ["outgoing", bridgeId!] });
+      await h.ari.waitForRequest("POST", `/bridges/${bridgeId}/record`);
+
+      /** Playback status and hasRecording in history for the resident with this access token. */
+      const recordingFor = async (accessToken: string) => {
+        const authorization = `Bearer ${accessToken}`;
+        const play = await h.app.inject({ method: "GET", url: `/calls/${callId}/recording`, headers: { authorization } });
+        const history = await h.app.inject({ method: "GET", url: "/calls/history", headers: { authorization } });
+        const items = (history.json() as { items: { callId: string; hasRecording: boolean }[] }).items;
+        return { status: play.statusCode, hasRecording: items.find((item) => item.callId === callId)?.hasRecording };
+      };
+
+      // Recording in progress: attached to the call, but there is no file to play yet.
+      const attached = async () =>
+        (await pg.db.query(`SELECT 1 FROM calls WHERE call_id = $1 AND recording_key IS NOT NULL`, [callId])).rowCount;
+      await waitFor(async () => (await attached()) === 1, 5000, "recording attached to history");
+      assert.deepEqual(await recordingFor(resident.accessToken), { status: 404, hasRecording: false });
+
+      const recordingName = `call-${callId}`;
+      h.ari.emit({ type: "StasisEnd", channel: { id: channelId, name } });
+      await h.ari.waitForRequest("DELETE", `/bridges/${bridgeId}`);
+      h.ari.addStoredRecording(recordingName, Buffer.from("RIFF-talk"));
+      h.ari.emit({
+        type: "RecordingFinished",
+        recording: { name: recordingName, target_uri: `bridge:${bridgeId}`, format: "wav", duration: 5 },
+      });
+      await h.ari.waitForRequest("DELETE", `/recordings/stored/${recordingName}`);
+
+      assert.deepEqual(await recordingFor(resident.accessToken), { status: 200, hasRecording: true });
+      // The flatmate in do-not-disturb was not rung: the call is in their history, the recording is not theirs.
+      assert.deepEqual(await recordingFor(flatmateSession.accessToken), { status: 404, hasRecording: false });
+    } finally {
+      await pg.updateAddress(addressId, { callRecordingDays: null });
+    }
+  });
+});
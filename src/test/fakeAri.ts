@@ -0,0 +1,220 @@
+import http from "http";
+import type { AddressInfo } from "net";
+import { WebSocket, WebSocketServer } from "ws";
+
+import type { AriEvent } from "../types";
+
+/** One REST call received by the fake ARI (method, path without /ari prefix, JSON body, query). */
+export type AriRequest = {
+  method: string;
+  path: string;
+  query: URLSearchParams;
+  body: Record<string, unknown> | undefined;
+};
+
+type FakeChannel = { id: string; name: string; state: string };
+type FakeBridge = { id: string; channels: string[] };
+
+/**
+ * In-process stand-in for Asterisk ARI: REST endpoints used by the backend plus the
+ * /ari/events WebSocket. Originate to a PJSIP endpoint fails until it is marked registered,
+ * like Asterisk does for an endpoint without contacts.
+ */
+export class FakeAri {
+  readonly requests: AriRequest[] = [];
+  readonly channels = new Map<string, FakeChannel>();
+  readonly bridges = new Map<string, FakeBridge>();
+  /** Stored recordings by name (what a finished live recording leaves in Asterisk). */
+  readonly recordings = new Map<string, Buffer>();
+  private readonly registered = new Set<string>();
+  private readonly server = http.createServer((req, res) => void this.handle(req, res));
+  private readonly wss = new WebSocketServer({ noServer: true });
+  private readonly sockets = new Set<WebSocket>();
+  private seq = 0;
+
+  constructor() {
+    this.server.on("upgrade", (req, socket, head) => {
+      if (!req.url?.startsWith("/ari/events")) {
+        socket.destroy();
+        return;
+      }
+      this.wss.handleUpgrade(req, socket, head, (ws) => {
+        this.sockets.add(ws);
+        ws.on("close", () => this.sockets.delete(ws));
+      });
+    });
+  }
+
+  async start(): Promise<number> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop() {
+    for (const ws of this.sockets) ws.terminate();
+    this.wss.close();
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  /** Resolves once the backend has connected to /ari/events. */
+  async waitForEventsClient(timeoutMs = 5000) {
+    await waitFor(() => this.sockets.size > 0, timeoutMs, "ARI events client");
+  }
+
+  /** Push an ARI event to connected backends. */
+  emit(event: AriEvent) {
+    const data = JSON.stringify(event);
+    for (const ws of this.sockets) ws.send(data);
+  }
+
+  /** Simulate a SIP REGISTER of the endpoint: originate succeeds and EndpointStateChange(online) is sent. */
+  registerEndpoint(resource: string) {
+    this.registered.add(resource);
+    this.emit({
+      type: "EndpointStateChange",
+      endpoint: { technology: "PJSIP", resource, state: "online", channel_ids: [] },
+    });
+  }
+
+  /** Create a channel as if Asterisk put it into Stasis (e.g. panel calling the app). */
+  addChannel(id: string, name: string) {
+    this.channels.set(id, { id, name, state: "Ring" });
+  }
+
+  /** Create a bridge as if the app had made it (e.g. left over by a previous backend process). */
+  addBridge(id: string, channels: string[]) {
+    this.bridges.set(id, { id, channels: [...channels] });
+  }
+
+  /** Put a recording file into stored recordings, as Asterisk does when a live recording stops. */
+  addStoredRecording(name: string, data: Buffer) {
+    this.recordings.set(name, data);
+  }
+
+  /** Requests matching method and path (string prefix or regexp). */
+  find(method: string, path: string | RegExp): AriRequest[] {
+    return this.requests.filter(
+      (r) => r.method === method && (typeof path === "string" ? r.path.startsWith(path) : path.test(r.path))
+    );
+  }
+
+  /** Wait until at least one request matches and return the first match. */
+  async waitForRequest(method: string, path: string | RegExp, timeoutMs = 5000): Promise<AriRequest> {
+    await waitFor(() => this.find(method, path).length > 0, timeoutMs, `${method} ${String(path)}`);
+    return this.find(method, path)[0]!;
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    const path = url.pathname.replace(/^\/ari/, "");
+    let raw = "";
+    for await (const chunk of req) raw += chunk;
+    const body = raw ? (JSON.parse(raw) as Record<string, unknown>) : undefined;
+    const method = req.method ?? "GET";
+    this.requests.push({ method, path, query: url.searchParams, body });
+
+    const send = (status: number, payload?: unknown) => {
+      res.writeHead(status, { "Content-Type": "application/json" });
+      res.end(payload === undefined ? undefined : JSON.stringify(payload));
+    };
+    const parts = path.split("/").filter(Boolean);
+
+    if (method === "GET" && path === "/asterisk/info") return send(200, { system: { version: "fake" } });
+    if (method === "POST" && parts[0] === "applications") return send(200, {});
+    if (method === "GET" && parts[0] === "applications" && parts[1]) {
+      return send(200, {
+        name: parts[1],
+        channel_ids: [...this.channels.keys()],
+        bridge_ids: [...this.bridges.keys()],
+        endpoint_ids: [],
+      });
+    }
+
+    if (parts[0] === "bridges") {
+      const bridgeId = parts[1];
+      if (method === "POST" && !bridgeId) {
+        const bridge = { id: `bridge-${++this.seq}`, channels: [] };
+        this.bridges.set(bridge.id, bridge);
+        return send(200, bridge);
+      }
+      const bridge = bridgeId ? this.bridges.get(bridgeId) : undefined;
+      if (!bridge) return send(404, { message: "Bridge not found" });
+      if (method === "GET") return send(200, { ...bridge, bridge_type: "mixing" });
+      if (method === "DELETE") {
+        this.bridges.delete(bridge.id);
+        return send(204);
+      }
+      if (method === "POST" && parts[2] === "addChannel") {
+        const channelId = String(body?.channel ?? "");
+        if (!bridge.channels.includes(channelId)) bridge.channels.push(channelId);
+        return send(204);
+      }
+      if (method === "POST" && parts[2] === "record") {
+        return send(201, { name: url.searchParams.get("name"), format: url.searchParams.get("format"), state: "recording" });
+      }
+    }
+
+    if (parts[0] === "channels") {
+      const channelId = parts[1];
+      if (method === "POST" && !channelId) {
+        const endpoint = String(body?.endpoint ?? "");
+        const resource = endpoint.replace(/^PJSIP\//, "");
+        // Trunk calls (OTP) always go out; temporary device endpoints need a registration.
+        if (!resource.includes("@") && !this.registered.has(resource)) {
+          return send(500, { message: "Allocation failed" });
+        }
+        const channel = { id: `chan-${++this.seq}`, name: `${endpoint}-${String(this.seq).padStart(8, "0")}`, state: "Down" };
+        this.channels.set(channel.id, channel);
+        return send(200, channel);
+      }
+      const channel = channelId ? this.channels.get(channelId) : undefined;
+      if (!channel) return send(404, { message: "Channel not found" });
+      if (method === "GET") return send(200, { ...channel, caller: { number: "" }, connected: { number: "" } });
+      if (method === "DELETE") {
+        this.channels.delete(channel.id);
+        for (const bridge of this.bridges.values()) {
+          bridge.channels = bridge.channels.filter((id) => id !== channel.id);
+        }
+        return send(204);
+      }
+      if (method === "POST" && parts[2] === "answer") {
+        channel.state = "Up";
+        return send(204);
+      }
+      if (method === "POST") return send(204);
+    }
+
+    if (parts[0] === "recordings" && parts[1] === "stored" && parts[2]) {
+      const name = decodeURIComponent(parts[2]);
+      const recording = this.recordings.get(name);
+      if (!recording) return send(404, { message: "Recording not found" });
+      if (method === "GET" && parts[3] === "file") {
+        res.writeHead(200, { "Content-Type": "audio/wav" });
+        return res.end(recording);
+      }
+      if (method === "DELETE") {
+        this.recordings.delete(name);
+        return send(204);
+      }
+    }
+
+    if (method === "GET" && parts[0] === "endpoints" && parts[2]) {
+      const state = this.registered.has(parts[2]) ? "online" : "offline";
+      return send(200, { technology: parts[1], resource: parts[2], state, channel_ids: [] });
+    }
+
+    return send(404, { message: `Not handled: ${method} ${path}` });
+  }
+}
+
+/**
+ * Poll predicate until it returns true or timeoutMs passes.
+ */
+export const waitFor = async (predicate: () => boolean | Promise<boolean>, timeoutMs: number, what: string) => {
+  const deadline = Date.now() + timeoutMs;
+  while (!(await predicate())) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting for ${what}`);
+    await new Promise((r) => setTimeout(r, 20));
+  }
+};
@@ -0,0 +1,48 @@
+/** One data message the backend handed to FCM. */
+export type SentFcmMessage = {
+  token: string;
+  data: Record<string, string>;
+};
+
+/**
+ * Stand-in for the firebase-admin module: records sent messages instead of calling FCM.
+ * Tokens in invalidTokens get a failed per-token response (like an unregistered device).
+ */
+export class FakeFcm {
+  readonly sent: SentFcmMessage[] = [];
+  readonly invalidTokens = new Set<string>();
+
+  /** Messages of one call with the given type (SIP_CALL / SIP_CALL_ENDED). */
+  forCall(callId: string, type: string): SentFcmMessage[] {
+    return this.sent.filter((m) => m.data.callId === callId && m.data.type === type);
+  }
+
+  private respond(tokens: string[]) {
+    const responses = tokens.map((token) =>
+      this.invalidTokens.has(token)
+        ? { success: false, error: { code: "messaging/registration-token-not-registered" } }
+        : { success: true, messageId: `msg-${this.sent.length}` }
+    );
+    const successCount = responses.filter((r) => r.success).length;
+    return { responses, successCount, failureCount: responses.length - successCount };
+  }
+
+  /** Module object to install in place of "firebase-admin". */
+  module() {
+    const messaging = {
+      sendEach: async (messages: { token: string; data: Record<string, string> }[]) => {
+        this.sent.push(...messages.map(({ token, data }) => ({ token, data })));
+        return this.respond(messages.map((m) => m.token));
+      },
+      sendEachForMulticast: async (message: { tokens: string[]; data: Record<string, string> }) => {
+        this.sent.push(...message.tokens.map((token) => ({ token, data: message.data })));
+        return this.respond(message.tokens);
+      },
+    };
+    return {
+      initializeApp: () => ({}),
+      credential: { cert: (serviceAccount: unknown) => serviceAccount },
+      messaging: () => messaging,
+    };
+  }
+}
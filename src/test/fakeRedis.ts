@@ -0,0 +1,24 @@
+import RedisMock from "ioredis-mock";
+
+import type { Redis } from "ioredis";
+
+const BLPOP_POLL_MS = 20;
+
+/** ioredis-mock typed without its blpop stub (it throws "Unsupported command"). */
+const RedisWithoutBlpop = RedisMock as unknown as new (options?: unknown) => Omit<Redis, "blpop">;
+
+/**
+ * In-memory Redis for tests. All instances share one dataset, like clients of one server.
+ * ioredis-mock has no blocking commands, so BLPOP (OTP queue) is emulated by polling LPOP.
+ */
+export class FakeRedis extends RedisWithoutBlpop {
+  async blpop(key: string, timeoutSec: number): Promise<[string, string] | null> {
+    const deadline = Date.now() + timeoutSec * 1000;
+    for (;;) {
+      const value = await this.lpop(key);
+      if (value !== null) return [key, value];
+      if (Date.now() >= deadline) return null;
+      await new Promise((r) => setTimeout(r, BLPOP_POLL_MS));
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import * as fs from "fs";
+import Module from "module";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { PGlite } from "@electric-sql/pglite";
+import { PGLiteSocketServer } from "@electric-sql/pglite-socket";
+
+import { FakeAri, waitFor } from "./fakeAri";
+import { FakeFcm } from "./fakeFcm";
+import { FakeRedis } from "./fakeRedis";
+
+import type { FastifyInstance } from "fastify";
+
+export { waitFor } from "./fakeAri";
+
+/** Running backend (src/index.ts) wired to fake ARI, in-memory Redis, embedded Postgres and fake FCM. */
+export type Harness = {
+  app: FastifyInstance;
+  ari: FakeAri;
+  fcm: FakeFcm;
+  tmpDir: string;
+  stop: () => Promise<void>;
+};
+
+const freePort = async (): Promise<number> => {
+  const server = net.createServer();
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as net.AddressInfo;
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+};
+
+/** Replace a dependency for every later require() of it (must run before the app is loaded). */
+const stubModule = (name: string, exports: unknown) => {
+  const id = require.resolve(name);
+  const stub = new Module(id);
+  stub.exports = exports;
+  stub.loaded = true;
+  require.cache[id] = stub;
+};
+
+/**
+ * Start the backend in this process. The app module is a singleton, so call once per test file
+ * (node --test runs every file in its own process).
+ */
+export const startHarness = async (): Promise<Harness> => {
+  // node --test reads the file's stdout as its binary report stream; stray console.log lines
+  // (ARI client) written in the middle of a report chunk make it fail to deserialize.
+  console.log = console.error;
+
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "intercom-test-"));
+  const ari = new FakeAri();
+  const ariPort = await ari.start();
+
+  const db = await PGlite.create();
+  const pgPort = await freePort();
+  const pgServer = new PGLiteSocketServer({ db, port: pgPort, host: "127.0.0.1", maxConnections: 10 });
+  await pgServer.start();
+
+  const serviceAccountPath = path.join(tmpDir, "firebase.json");
+  fs.writeFileSync(serviceAccountPath, "{}");
+  Object.assign(process.env, {
+    SERVER_PORT: "0",
+    LOG_LEVEL: "silent",
+    ARI_HOST: "127.0.0.1",
+    ARI_PORT: String(ariPort),
+    POSTGRES_HOST: "127.0.0.1",
+    POSTGRES_PORT: String(pgPort),
+    POSTGRES_DB: "postgres",
+    POSTGRES_USER: "postgres",
+    POSTGRES_PASSWORD: "postgres",
+    FIREBASE_SERVICE_ACCOUNT_PATH: serviceAccountPath,
+    OBJECT_STORAGE_DIR: path.join(tmpDir, "objects"),
+  });
+  require("./setup-env");
+
+  const fcm = new FakeFcm();
+  stubModule("ioredis", { __esModule: true, default: FakeRedis, Redis: FakeRedis });
+  stubModule("firebase-admin", fcm.module());
+
+  // Schema first, so tests can seed data as soon as the app module is loaded.
+  const postgres = require("../store/postgres") as typeof import("../store/postgres");
+  const migrations = require("../store/migrations") as typeof import("../store/migrations");
+  await migrations.runMigrations();
+  await postgres.sipEndpointTemplates();
+
+  const { app } = require("../index") as typeof import("../index");
+  await app.ready();
+  await ari.waitForEventsClient();
+  // The fake server sees the socket before the client's "open" fires.
+  const ariClient = require("../ari/client") as typeof import("../ari/client");
+  await waitFor(() => ariClient.isAriEventsConnected(), 5000, "ARI events open");
+
+  const stop = async () => {
+    // Closes Redis and the Postgres pool too.
+    await app.close();
+    await ari.stop();
+    await pgServer.stop();
+    await db.close();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  };
+
+  return { app, ari, fcm, tmpDir, stop };
+};
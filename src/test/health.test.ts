@@ -0,0 +1,46 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+
+import { startHarness } from "./harness";
+
+import type { Harness } from "./harness";
+import type { Readiness } from "../health/checks";
+
+describe("health checks", () => {
+  let h: Harness;
+
+  before(async () => {
+    h = await startHarness();
+  });
+
+  after(async () => {
+    await h?.stop();
+  });
+
+  test("liveness does not depend on anything", async () => {
+    const res = await h.app.inject({ method: "GET", url: "/health/live" });
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.json().ok, true);
+  });
+
+  test("readiness reports every component with latency", async () => {
+    const res = await h.app.inject({ method: "GET", url: "/health/ready" });
+    const body = res.json() as Readiness;
+    // No Asterisk CLI here, so multifon is normally down; the status code must follow the components.
+    assert.equal(res.statusCode, body.ok ? 200 : 503);
+    assert.deepEqual(Object.keys(body.components).sort(), ["ariEvents", "ariRest", "firebase", "multifon", "postgres", "redis"]);
+    for (const name of ["postgres", "redis", "ariEvents", "ariRest", "firebase"]) {
+      assert.equal(body.components[name]?.ok, true, `${name}: ${body.components[name]?.error}`);
+      assert.equal(typeof body.components[name]?.latencyMs, "number");
+    }
+  });
+
+  test("readiness fails when ARI REST is unreachable", async () => {
+    await h.ari.stop();
+    const res = await h.app.inject({ method: "GET", url: "/health/ready" });
+    assert.equal(res.statusCode, 503);
+    const body = res.json() as Readiness;
+    assert.equal(body.ok, false);
+    assert.equal(body.components.ariRest?.ok, false);
+  });
+});
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+
+import { startHarness } from "./harness";
+
+import type { Harness } from "./harness";
+
+type Migrations = typeof import("../store/migrations");
+
+describe("database migrations", () => {
+  let h: Harness;
+  let migrations: Migrations;
+
+  before(async () => {
+    h = await startHarness();
+    migrations = require("../store/migrations") as Migrations;
+  });
+
+  after(async () => {
+    await h?.stop();
+  });
+
+  test("every migration is applied at startup", async () => {
+    const status = await migrations.getMigrationStatus();
+    assert.equal(status[0]?.file, "0001_initial.sql");
+    for (const migration of status) {
+      assert.ok(migration.appliedAt, `${migration.file} is pending`);
+    }
+  });
+
+  test("re-running, also concurrently, applies nothing", async () => {
+    const runs = await Promise.all([migrations.runMigrations(), migrations.runMigrations()]);
+    assert.deepEqual(runs, [[], []]);
+  });
+});
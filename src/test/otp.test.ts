@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+
+import { startHarness, waitFor } from "./harness";
+
+import type { Harness } from "./harness";
+
+describe("OTP auth", () => {
+  let h: Harness;
+  let getOtpChannel: typeof import("../store/redis/otp/queue").getOtpChannel;
+
+  before(async () => {
+    h = await startHarness();
+    getOtpChannel = (require("../store/redis/otp/queue") as typeof import("../store/redis/otp/queue")).getOtpChannel;
+  });
+
+  after(async () => {
+    await h?.stop();
+  });
+
+  const requestCode = (phone: string, ip: string) =>
+    h.app.inject({ method: "POST", url: "/auth/request-code", remoteAddress: ip, payload: { phone } });
+
+  const verifyCode = (phone: string, code: string, ip: string) =>
+    h.app.inject({
+      method: "POST",
+      url: "/auth/verify-code",
+      remoteAddress: ip,
+      payload: { phone, code, deviceId: "test-device" },
+    });
+
+  /** Wait for the worker to dial the phone via the trunk; returns the code it dictates and the channel. */
+  const waitForOtpCall = async (phone: string) => {
+    const endpoint = `PJSIP/${phone}@multifon`;
+    const find = () => h.ari.find("POST", /^\/channels$/).find((r) => r.body?.endpoint === endpoint);
+    await waitFor(() => find() !== undefined, 5000, `OTP call to ${phone}`);
+    const request = find()!;
+    const variables = request.body?.variables as Record<string, string>;
+    const code = [1, 2, 3, 4, 5].map((i) => variables[`OTP_D${i}`]).join("");
+    const channel = [...h.ari.channels.values()].find((c) => c.name.startsWith(`${endpoint}-`))!;
+    return { code, request, channelId: channel.id };
+  };
+
+  test("worker dials the code and verify-code issues a session", async () => {
+    const phone = "79001110001";
+    const res = await requestCode("+7 900 111-00-01", "192.0.2.1");
+    assert.equal(res.statusCode, 200);
+    assert.equal(res.json().success, true);
+
+    const { code, request, channelId } = await waitForOtpCall(phone);
+    const channelName = h.ari.channels.get(channelId)!.name;
+    assert.match(code, /^\d{5}$/);
+    assert.equal(request.body?.context, "otp-out");
+    // The worker maps the channel once ARI has answered the originate.
+    await waitFor(async () => (await getOtpChannel(channelId)) !== null, 5000, "OTP channel mapping");
+    assert.deepEqual(await getOtpChannel(channelId), { phone, ip: "192.0.2.1" });
+
+    const verified = await verifyCode(phone, code, "192.0.2.1");
+    assert.equal(verified.statusCode, 200);
+    const body = verified.json() as { success: boolean; accessToken: string; refreshToken: string; deviceId: string };
+    assert.equal(body.success, true);
+    assert.equal(body.deviceId, "test-device");
+    assert.ok(body.accessToken && body.refreshToken);
+
+    // Code is single-use.
+    assert.equal((await verifyCode(phone, code, "192.0.2.1")).statusCode, 410);
+
+    h.ari.emit({ type: "ChannelDestroyed", channel: { id: channelId, name: channelName } });
+    await waitFor(async () => (await getOtpChannel(channelId)) === null, 5000, "OTP channel mapping cleanup");
+  });
+
+  test("fifth code request for a phone is rate limited", async () => {
+    const phone = "79001110002";
+    for (let i = 1; i <= 4; i++) {
+      assert.equal((await requestCode(phone, "192.0.2.2")).statusCode, 200, `request ${i}`);
+    }
+    const limited = await requestCode(phone, "192.0.2.2");
+    assert.equal(limited.statusCode, 429);
+    assert.equal(limited.json().message, "Превышен лимит запросов");
+    assert.equal(limited.headers["retry-after"], "300");
+  });
+
+  test("fifth wrong code for a phone is rate limited", async () => {
+    const phone = "79001110003";
+    assert.equal((await requestCode(phone, "192.0.2.3")).statusCode, 200);
+    const { code } = await waitForOtpCall(phone);
+    const wrong = code === "00000" ? "11111" : "00000";
+
+    for (let i = 1; i <= 4; i++) {
+      assert.equal((await verifyCode(phone, wrong, "192.0.2.3")).statusCode, 400, `attempt ${i}`);
+    }
+    const limited = await verifyCode(phone, wrong, "192.0.2.3");
+    assert.equal(limited.statusCode, 429);
+    assert.equal(limited.json().message, "Превышен лимит запросов");
+  });
+
+  test("IP requesting codes for five phones is blocked", async () => {
+    const ip = "192.0.2.4";
+    for (let i = 1; i <= 4; i++) {
+      assert.equal((await requestCode(`7900222000${i}`, ip)).statusCode, 200, `phone ${i}`);
+    }
+    const blocked = await requestCode("79002220005", ip);
+    assert.equal(blocked.statusCode, 429);
+    assert.equal(blocked.json().message, "IP заблокирован");
+
+    // Block covers verify too; other clients are not affected.
+    assert.equal((await verifyCode("79002220001", "12345", ip)).statusCode, 429);
+    assert.equal((await requestCode("79002220006", "192.0.2.5")).statusCode, 200);
+  });
+});
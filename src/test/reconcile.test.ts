@@ -0,0 +1,67 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+
+import { startHarness, waitFor } from "./harness";
+
+import type { Harness } from "./harness";
+import type { CallData } from "../types";
+
+type Redis = typeof import("../store/redis");
+
+describe("call reconciliation after restart", () => {
+  let h: Harness;
+  let redis: Redis;
+  let reconcileCalls: typeof import("../call/reconcile").reconcileCalls;
+
+  before(async () => {
+    h = await startHarness();
+    redis = require("../store/redis") as Redis;
+    reconcileCalls = (require("../call/reconcile") as typeof import("../call/reconcile")).reconcileCalls;
+  });
+
+  after(async () => {
+    await h?.stop();
+  });
+
+  /** Call data as the previous process left it in Redis. */
+  const leftoverCall = async (callId: string, data: CallData) => {
+    await redis.setCallData(callId, { userIds: [], devices: [], ...data }, 300);
+  };
+
+  const callStatus = async (callId: string) => (await redis.getCallData<CallData>(callId))?.status;
+
+  test("ringing call gets its ring timeout back", async () => {
+    h.ari.addChannel("panel-ringing", "PJSIP/domophone1-00000001");
+    h.ari.addBridge("bridge-ringing", ["panel-ringing"]);
+    await leftoverCall("call-ringing", {
+      channelId: "panel-ringing",
+      bridgeId: "bridge-ringing",
+      status: "ringing",
+      ringDeadlineAt: Date.now() + 300,
+    });
+
+    await reconcileCalls(h.app);
+    assert.equal(await callStatus("call-ringing"), "ringing");
+    assert.ok(h.ari.bridges.has("bridge-ringing"));
+
+    await waitFor(async () => (await callStatus("call-ringing")) === "timeout", 5000, "ring timeout");
+    const cont = await h.ari.waitForRequest("POST", "/channels/panel-ringing/continue");
+    assert.equal(cont.query.get("extension"), "noanswer");
+  });
+
+  test("call whose panel is gone is ended and orphans are cleaned up", async () => {
+    h.ari.addChannel("device-leg", "PJSIP/inc_call-gone_0-00000002");
+    h.ari.addBridge("bridge-gone", ["device-leg"]);
+    await leftoverCall("call-gone", { channelId: "panel-gone", bridgeId: "bridge-gone", status: "accepted" });
+    h.ari.addChannel("orphan-chan", "PJSIP/domophone3-00000003");
+    h.ari.addBridge("orphan-bridge", []);
+
+    await reconcileCalls(h.app);
+
+    assert.equal(await callStatus("call-gone"), "ended");
+    assert.ok(!h.ari.bridges.has("bridge-gone"));
+    assert.ok(!h.ari.channels.has("device-leg"));
+    assert.ok(!h.ari.channels.has("orphan-chan"));
+    assert.ok(!h.ari.bridges.has("orphan-bridge"));
+  });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { after, before, describe, test } from "node:test";
+
+import { startHarness } from "./harness";
+
+import type { Harness } from "./harness";
+
+type Tokens = { accessToken: string; refreshToken: string };
+
+describe("device sessions", () => {
+  let h: Harness;
+  let getOrCreateUser: typeof import("../store/postgres").getOrCreateUser;
+  let issueSession: typeof import("../auth/session").issueSession;
+
+  before(async () => {
+    h = await startHarness();
+    getOrCreateUser = (require("../store/postgres") as typeof import("../store/postgres")).getOrCreateUser;
+    issueSession = (require("../auth/session") as typeof import("../auth/session")).issueSession;
+  });
+
+  after(async () => {
+    await h?.stop();
+  });
+
+  const signIn = async (phone: string): Promise<Tokens> => {
+    const user = await getOrCreateUser(phone);
+    return issueSession(user.id, `device-${phone}`);
+  };
+
+  const refresh = (refreshToken: string) =>
+    h.app.inject({ method: "POST", url: "/auth/refresh", payload: { refreshToken } });
+
+  /** Status of an app route behind requireAuth. */
+  const callHistory = async (accessToken?: string) =>
+    (
+      await h.app.inject({
+        method: "GET",
+        url: "/calls/history",
+        ...(accessToken ? { headers: { authorization: `Bearer ${accessToken}` } } : {}),
+      })
+    ).statusCode;
+
+  test("app routes require an access token", async () => {
+    const { accessToken } = await signIn("79003330001");
+    assert.equal(await callHistory(), 401);
+    assert.equal(await callHistory("not-a-token"), 401);
+    assert.equal(await callHistory(accessToken), 200);
+  });
+
+  test("refresh returns a new pair and rotates the refresh token", async () => {
+    const first = await signIn("79003330002");
+    const res = await refresh(first.refreshToken);
+    assert.equal(res.statusCode, 200);
+    const second = res.json() as Tokens;
+    assert.notEqual(second.refreshToken, first.refreshToken);
+    assert.equal(await callHistory(second.accessToken), 200);
+
+    // The new refresh token is good for the next rotation.
+    const third = await refresh(second.refreshToken);
+    assert.equal(third.statusCode, 200);
+    assert.equal(await callHistory((third.json() as Tokens).accessToken), 200);
+  });
+
+  test("reusing a rotated refresh token revokes the device session", async () => {
+    const first = await signIn("79003330003");
+    const second = (await refresh(first.refreshToken)).json() as Tokens;
+
+    assert.equal((await refresh(first.refreshToken)).statusCode, 401);
+    // The session is gone: neither the current refresh token nor its access token work.
+    assert.equal((await refresh(second.refreshToken)).statusCode, 401);
+    assert.equal(await callHistory(second.accessToken), 401);
+  });
+
+  test("logout invalidates the access and refresh tokens", async () => {
+    const { accessToken, refreshToken } = await signIn("79003330004");
+    const logout = await h.app.inject({
+      method: "POST",
+      url: "/auth/logout",
+      headers: { authorization: `Bearer ${accessToken}` },
+    });
+    assert.equal(logout.statusCode, 204);
+    assert.equal(await callHistory(accessToken), 401);
+    assert.equal((await refresh(refreshToken)).statusCode, 401);
+  });
+});
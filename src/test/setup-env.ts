@@ -0,0 +1,19 @@
+/**
+ * Placeholder values for env vars that config/env requires at import time.
+ * Import first in tests; no real Asterisk / Redis / Postgres is contacted.
+ */
+const defaults: Record<string, string> = {
+  SERVER_DOMAIN: "test.local",
+  SERVER_IP: "127.0.0.1",
+  ARI_USER: "test",
+  ARI_PASSWORD: "test",
+  AUTH_TOKEN_SECRET: "test-secret",
+  REDIS_PASSWORD: "test",
+  POSTGRES_DB: "test",
+  POSTGRES_USER: "test",
+  POSTGRES_PASSWORD: "test",
+};
+
+for (const [key, value] of Object.entries(defaults)) {
+  if (!process.env[key]) process.env[key] = value;
+}
@@ -0,0 +1,104 @@
+import assert from "node:assert/strict";
+import http from "node:http";
+import { after, before, describe, test } from "node:test";
+
+import { startHarness } from "./harness";
+
+import type { Harness } from "./harness";
+
+type Storage = typeof import("../storage/objects");
+
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10]);
+
+describe("panel snapshots", () => {
+  let h: Harness;
+  let storage: Storage;
+  let captureCallSnapshot: typeof import("../snapshot/capture").captureCallSnapshot;
+
+  before(async () => {
+    h = await startHarness();
+    storage = require("../storage/objects") as Storage;
+    captureCallSnapshot = (require("../snapshot/capture") as typeof import("../snapshot/capture")).captureCallSnapshot;
+  });
+
+  after(async () => {
+    await h?.stop();
+  });
+
+  /** Run with a local panel web server answering every request with handler. */
+  const withPanel = async (handler: http.RequestListener, run: (baseUrl: string) => Promise<void>) => {
+    const panel = http.createServer(handler);
+    await new Promise<void>((resolve) => panel.listen(0, "127.0.0.1", resolve));
+    try {
+      const { port } = panel.address() as { port: number };
+      await run(`http://127.0.0.1:${port}`);
+    } finally {
+      panel.closeAllConnections();
+      await new Promise((resolve) => panel.close(resolve));
+    }
+  };
+
+  const getPath = (url: string) => {
+    const { pathname, search } = new URL(url);
+    return `${pathname}${search}`;
+  };
+
+  test("captured snapshot is served by its signed link", async () => {
+    await withPanel(
+      (_req, res) => res.end(JPEG),
+      async (baseUrl) => {
+        const key = await captureCallSnapshot("snap-call-1", `${baseUrl}/snapshot.jpg`);
+        assert.equal(key, "snap-call-1.jpg");
+        const res = await h.app.inject({ method: "GET", url: getPath(storage.getObjectUrl(key)) });
+        assert.equal(res.statusCode, 200);
+        assert.equal(res.headers["content-type"], "image/jpeg");
+        assert.deepEqual(res.rawPayload, JPEG);
+      }
+    );
+  });
+
+  test("oversized snapshot is refused by Content-Length and while streaming", async () => {
+    const chunk = Buffer.alloc(256 * 1024, 0xff);
+    let chunksSent = 0;
+    await withPanel(
+      (req, res) => {
+        if (req.url === "/declared.jpg") {
+          res.setHeader("content-length", String(10 * 1024 * 1024));
+          res.write(JPEG);
+          return;
+        }
+        // No Content-Length: keep sending until the client goes away.
+        const send = () => {
+          while (!res.destroyed && chunksSent < 100 && res.write(chunk)) chunksSent += 1;
+          if (!res.destroyed && chunksSent < 100) res.once("drain", send);
+          else res.end();
+        };
+        send();
+      },
+      async (baseUrl) => {
+        await assert.rejects(captureCallSnapshot("snap-call-2", `${baseUrl}/declared.jpg`), /too large/);
+        await assert.rejects(captureCallSnapshot("snap-call-3", `${baseUrl}/endless.jpg`), /too large/);
+        // Aborted well before the whole 25 MB body was sent.
+        assert.ok(chunksSent < 100, `panel sent ${chunksSent} chunks`);
+      }
+    );
+  });
+
+  test("expired, tampered and malformed links are refused", async () => {
+    await storage.saveObject("snap-call-4.jpg", JPEG);
+    const link = new URL(storage.getObjectUrl("snap-call-4.jpg"));
+    const signature = link.searchParams.get("signature")!;
+
+    const tampered = `${link.pathname}?expires=${link.searchParams.get("expires")}&signature=${signature.slice(1)}A`;
+    assert.equal((await h.app.inject({ method: "GET", url: tampered })).statusCode, 403);
+    const expired = getPath(storage.getObjectUrl("snap-call-4.jpg", -60));
+    assert.equal((await h.app.inject({ method: "GET", url: expired })).statusCode, 403);
+    const otherKey = `/objects/snap-call-5.jpg${link.search}`;
+    assert.equal((await h.app.inject({ method: "GET", url: otherKey })).statusCode, 403);
+
+    for (const key of ["..%2F..%2Fetc%2Fpasswd", "snap-call-4.png", "snap.call.jpg"]) {
+      const res = await h.app.inject({ method: "GET", url: `/objects/${key}${link.search}` });
+      assert.equal(res.statusCode, 404, key);
+    }
+  });
+});
@@ -1,12 +1,60 @@
+/**
+ * Push token of a resident. platform picks the provider (push/dispatch.ts):
+ * "ios_voip" — PushKit token (incoming calls), "ios" — APNs device token, anything else — FCM.
+ * deviceId is the app session device that registered the token (null for old rows).
+ */
+export type PushTarget = {
+  userId: number;
+  pushToken: string;
+  platform: string;
+  deviceId?: string | null;
+};
+
+/**
+ * One resident device rung by an incoming call: each device gets its own temporary
+ * endpoint inc_<callId>_<n>, so the first device to answer can win the bridge.
+ */
+export type CallDevice = PushTarget & {
+  endpointId: string;
+};
+
+/**
+ * State of an incoming call (see call/stateMachine.ts for allowed transitions):
+ * 'pending' — endpoints and bridge are being set up; 'ringing' — devices were pushed and originates scheduled;
+ * 'accepted' — a device joined the bridge; 'forwarding' — devices did not answer, residents' forward phones are rung;
+ * 'forwarded' — a forward phone joined the bridge; 'rejected' — declined via /calls/end; 'timeout' — nobody answered in time;
+ * 'ended' — panel or answered device / phone hung up (final).
+ */
+export type CallStatus = "pending" | "ringing" | "accepted" | "forwarding" | "forwarded" | "rejected" | "timeout" | "ended";
+
+/**
+ * Resident's phone an incoming call is forwarded to over the multifon trunk.
+ * immediate — the resident has no app device, so the phone rings together with the family's devices.
+ */
+export type CallForward = {
+  userId: number;
+  phone: string;
+  immediate: boolean;
+};
+
 /**
  * Shape of data stored under call:${callId}.
- * Incoming (domophone): channelId, endpointId, credentials, status, bridgeId, address.
- * Outgoing (app-to-app): endpointId, credentials only.
+ * Incoming (domophone): channelId, devices, userIds, status, bridgeId, address.
+ * Outgoing (app-to-app): endpointId, credentials, userId.
  */
 export type CallData = {
   channelId?: string;
   endpointId?: string;
+  /** Outgoing: owner of the credentials. Incoming: resident who answered (on a device or a forward phone). */
   userId?: number;
+  /** Incoming only: all residents of the apartment rung by this call. */
+  userIds?: number[];
+  /** Incoming only: devices rung by this call (one temporary endpoint each). */
+  devices?: CallDevice[];
+  /** Incoming only: residents' forward phones (see CallForward). */
+  forwards?: CallForward[];
+  /** Incoming only: tokens that get the "call ended" push (on iOS these differ from the ringing PushKit tokens). */
+  notifyTargets?: PushTarget[];
   apartment?: string;
   panelIp?: string;
   credentials?: {
@@ -16,24 +64,67 @@ export type CallData = {
       domain: string;
     };
   };
-  /** For ring-timeout: only hang up if still 'pending'. Set to 'accepted' when answered, 'rejected' on /calls/end, 'timeout' when we hang up by timeout. */
-  status?: "pending" | "accepted" | "rejected" | "timeout";
+  /** Incoming only: state of the call; changed only through call/stateMachine.ts. */
+  status?: CallStatus;
+  /** Incoming only: lifetime of this call's Redis keys (panel setting or env default). */
+  ttlSec?: number;
+  /** Incoming only: when the panel call reached the backend (epoch ms). */
+  startedAt?: number;
+  /** Incoming only: when a ringing call times out (epoch ms), so a restarted backend can resume the timer. */
+  ringDeadlineAt?: number;
   /** Incoming only: bridge id for cleanup. */
   bridgeId?: string;
   /** Incoming only: display address (e.g. panel address). */
   address?: string;
   /** Incoming only: panel (domophone) endpoint id for "one active incoming per panel" cleanup. */
   domophoneEndpointId?: string;
+  /** Incoming only: address id of the panel (stored in call history). */
+  addressId?: number;
+  /** Incoming only: panels.id of the calling panel (door unlock settings). */
+  panelId?: number;
+  /** Incoming only: visitor voice message length when nobody answers (panel setting); absent = noanswer prompt. */
+  voicemailMaxSec?: number;
+  /** Incoming only: days the answered conversation's recording is kept (address opt-in); absent = not recorded. */
+  recordingDays?: number;
 };
 
+/** Remote door unlock method configured per panel. */
+export type PanelUnlockMethod = "dtmf" | "http";
+
+/** Entrance panel of one building, or gate/wicket panel shared by several (reaches apartments only via zones). */
+export type PanelKind = "entrance" | "gate";
+
+/**
+ * Final (or current) status of a call row in Postgres `calls` history.
+ * 'caller_hung_up' is set when the panel side drops while the call is still pending;
+ * 'answered_elsewhere' is set for residents whose family member picked up first;
+ * 'forwarded' is set for the resident whose forward phone answered;
+ * 'unpaid' is set when no resident had an active subscription and the call was not rung;
+ * 'dnd' is set for residents not rung because of their do-not-disturb settings.
+ */
+export type CallHistoryStatus =
+  | "pending"
+  | "accepted"
+  | "answered_elsewhere"
+  | "forwarded"
+  | "rejected"
+  | "timeout"
+  | "caller_hung_up"
+  | "unpaid"
+  | "dnd";
+
 /**
  * Shape of data stored in channel session (StasisEnd cleanup).
  * Domophone channel: only { callId } (full call data in call:${callId}).
- * Client channel (outgoing leg): only { bridgeId }.
+ * Answered device leg: { callId, bridgeId }.
+ * Live view viewer or panel leg: { liveViewId }.
+ * Concierge call leg (resident's app or the desk): { bridgeId, peerChannelId } — the other leg.
  */
 export type ChannelSession = {
   bridgeId?: string;
   callId?: string;
+  liveViewId?: string;
+  peerChannelId?: string;
 };
 
 /** Payload for /calls/credentials response (temporary SIP credentials for outgoing calls). */
@@ -48,19 +139,35 @@ export type CredentialsPayload = {
   };
 };
 
-/** Body for POST /push/register. */
+/** Body for POST /push/register (user is taken from the session). */
 export type RegisterBody = {
-  userId: number;
   pushToken: string;
   platform: string;
 };
 
+/** Signed-in resident attached to request by requireAuth. */
+export type AuthContext = {
+  userId: number;
+  sessionId: string;
+  deviceId: string;
+};
+
+/** Token pair returned by /auth/verify-code and /auth/refresh (expiry in Unix seconds). */
+export type SessionTokens = {
+  accessToken: string;
+  accessTokenExpiresAt: number;
+  refreshToken: string;
+  refreshTokenExpiresAt: number;
+};
+
 /** FCM data message payload for incoming call push. */
 export type FcmCallPayload = {
   type: "SIP_CALL";
   callId: string;
   sipCredentials: string;
   address?: string;
+  /** Short-lived signed URL of the panel snapshot taken when the call came in. */
+  previewUrl?: string;
 };
 
 /** FCM data message payload for "call ended" push. */
@@ -68,18 +175,92 @@ export type FcmCallEndedPayload = {
   type: "SIP_CALL_ENDED";
   callId: string;
   address: string;
-  reason: "timeout" | "caller_hung_up";
+  reason: "timeout" | "caller_hung_up" | "answered_elsewhere" | "rejected_elsewhere";
+};
+
+/** FCM data message payload for "new message from the door" push. */
+export type FcmVoiceMessagePayload = {
+  type: "VOICE_MESSAGE";
+  callId: string;
+  address: string;
+  /** Download endpoint (GET /calls/:callId/voicemail, needs the resident's session). */
+  url: string;
+};
+
+/** ARI channel object (fields the backend reads). */
+export type AriChannel = {
+  id: string;
+  /** Technology/resource plus unique tail, e.g. "PJSIP/domophone1-0000002a". */
+  name: string;
+  state?: string;
+  caller?: { number?: string; name?: string };
+  connected?: { number?: string };
+  dialplan?: { context?: string; exten?: string; priority?: number };
+};
+
+/** ARI endpoint object. */
+export type AriEndpoint = {
+  technology: string;
+  resource: string;
+  state?: string;
+  channel_ids?: string[];
 };
 
-/** ARI WebSocket event shape. */
-export type AriEvent = {
-  type: string;
-  [key: string]: unknown;
+/** Channel entered our Stasis app; args are the Stasis() / originate appArgs. */
+export type AriStasisStartEvent = {
+  type: "StasisStart";
+  channel: AriChannel;
+  args: string[];
 };
 
+/** Channel left our Stasis app (hung up or continued in dialplan). */
+export type AriStasisEndEvent = {
+  type: "StasisEnd";
+  channel: AriChannel;
+};
+
+export type AriChannelDestroyedEvent = {
+  type: "ChannelDestroyed";
+  channel: AriChannel;
+};
+
+export type AriEndpointStateChangeEvent = {
+  type: "EndpointStateChange";
+  endpoint: AriEndpoint;
+};
+
+/** Media started with playMedia finished playing; target_uri is e.g. "channel:<id>". */
+export type AriPlaybackFinishedEvent = {
+  type: "PlaybackFinished";
+  playback: { id: string; target_uri: string; state?: string };
+};
+
+/** Live recording stopped (length reached, terminate digit or hangup); the file is in stored recordings. */
+export type AriRecordingFinishedEvent = {
+  type: "RecordingFinished";
+  recording: { name: string; target_uri: string; format: string; duration?: number };
+};
+
+/** ARI WebSocket events the backend handles; the client drops other event types. */
+export type AriEvent =
+  | AriStasisStartEvent
+  | AriStasisEndEvent
+  | AriChannelDestroyedEvent
+  | AriEndpointStateChangeEvent
+  | AriPlaybackFinishedEvent
+  | AriRecordingFinishedEvent;
+
 export type AriEventHandler = (event: AriEvent) => void;
 
 /** ARI bridge response shape. */
 export type AriBridge = {
   id: string;
 };
+
+/** ARI application: what is currently in Stasis for it. */
+export type AriApplication = {
+  name: string;
+  channel_ids: string[];
+  bridge_ids: string[];
+  endpoint_ids: string[];
+};